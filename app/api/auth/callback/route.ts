@@ -1,66 +1,61 @@
 // app/api/auth/callback/route.ts
+import { finishLoginAttempt } from '@/lib/server/auth';
+import { createSession } from '@/lib/server/session';
 import { getTokens } from '@/lib/services/aps';
-import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
 
+/**
+ * loginError - Redirects to the login error page, which explains the reason and offers to sign in again.
+ */
+const loginError = (request: Request, reason: string) => {
+  return NextResponse.redirect(new URL(`/auth/error?reason=${reason}`, request.url));
+};
+
 /**
  * GET - Handles the OAuth callback by exchanging the authorization code for tokens.
  *
- * This route expects a "code" query parameter. It then fetches tokens using the APS service,
- * sets them in cookies, and finally redirects the user to the home page.
+ * This route expects "code" and "state" query parameters. The state must match the login started
+ * in this browser, whose PKCE code verifier is then used to fetch tokens from the APS service.
+ * The tokens start a server-side session, and the user is redirected to the page they signed in from, or
+ * the home page. Failures redirect to the login error page.
  *
  * @param request - The incoming HTTP request.
- * @returns A NextResponse that redirects the user, or an error response if something goes wrong.
+ * @returns A NextResponse that redirects the user.
  */
 export async function GET(request: Request) {
   const url = new URL(request.url);
   const code = url.searchParams.get('code');
 
+  // The login in progress is checked, and consumed, before anything else.
+  const attempt = await finishLoginAttempt(url.searchParams.get('state'));
+  if ('error' in attempt) {
+    return loginError(request, attempt.error);
+  }
+
+  // The user declined the consent, or the authorization server refused the request.
+  if (url.searchParams.get('error')) {
+    return loginError(request, url.searchParams.get('error') === 'access_denied' ? 'access_denied' : 'authorization_failed');
+  }
+
   if (!code) {
-    return new Response('Authorization code is missing', { status: 400 });
+    return loginError(request, 'missing_code');
   }
 
   try {
-    const tokens = await getTokens(code);
+    const tokens = await getTokens(code, attempt.codeVerifier);
 
     if (!tokens) {
       console.error('No tokens received from APS service.');
-      return new Response('Failed to retrieve tokens', { status: 500 });
+      return loginError(request, 'token_exchange');
     }
 
-    const cookieStore = await cookies();
-
-    cookieStore.set('public_token', tokens.public_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24, // 1 day
-      path: '/'
-    });
-
-    cookieStore.set('internal_token', tokens.internal_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24,
-      path: '/'
-    });
-
-    cookieStore.set('refresh_token', tokens.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: '/'
-    });
-
-    cookieStore.set('expires_at', tokens.expires_at.toString(), {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24,
-      path: '/'
-    });
+    // Keep the tokens on the server; the browser only receives the session ID.
+    await createSession(tokens);
 
-    return NextResponse.redirect(new URL('/', request.url));
+    // Return to the page the login started from, kept by the login route.
+    return NextResponse.redirect(new URL(attempt.returnTo, request.url));
   } catch (error) {
     console.error('Error getting tokens:', error);
-    return new Response('Authentication failed', { status: 500 });
+    return loginError(request, 'token_exchange');
   }
 }
@@ -1,18 +1,24 @@
 // app/api/auth/login/route.ts
+import { startLoginAttempt } from '@/lib/server/auth';
 import { getAuthorizationUrl } from '@/lib/services/aps';
 import { redirect } from 'next/navigation';
 
 /**
  * GET - Handles the login route by redirecting the user to the APS authorization URL.
  *
- * This function obtains the authorization URL from the APS service and redirects the client
- * to that URL to begin the OAuth login process.
+ * This function starts a login attempt, whose state nonce and PKCE code verifier are kept in a
+ * short-lived httpOnly cookie checked by the callback, and redirects the client to the
+ * authorization URL to begin the OAuth login process. The optional "returnTo" query parameter
+ * holds the page to reopen after signing in, e.g. a shared link; it is kept in the same cookie.
  *
+ * @param request - The incoming HTTP request.
  * @returns A redirect response to the APS login page.
  */
-export async function GET() {
+export async function GET(request: Request) {
+  const { state, codeChallenge } = await startLoginAttempt(new URL(request.url).searchParams.get('returnTo'));
+
   // Generate the APS authorization URL for user login.
-  const authUrl = getAuthorizationUrl();
+  const authUrl = getAuthorizationUrl(state, codeChallenge);
   
   // Redirect the user to the authorization URL.
   // This redirect function internally throws a special NEXT_REDIRECT error, which is expected.
@@ -1,15 +1,27 @@
 // app/api/auth/logout/route.ts
-import { cookies } from 'next/headers';
+import { destroySession } from '@/lib/server/session';
+import { revokeRefreshToken } from '@/lib/services/aps';
 import { redirect } from 'next/navigation';
 
+/**
+ * GET - Logs the user out by ending their server-side session.
+ *
+ * The stored session is deleted, so its cookie is no longer accepted even if a copy was kept,
+ * and its refresh token is revoked at APS.
+ *
+ * @returns A redirect response to the home page.
+ */
 export async function GET() {
-  const cookieStore = await cookies();
-  
-  cookieStore.delete('public_token');
-  cookieStore.delete('internal_token');
-  cookieStore.delete('refresh_token');
-  cookieStore.delete('expires_at');
+  const tokens = await destroySession();
+
+  if (tokens) {
+    try {
+      await revokeRefreshToken(tokens.refresh_token);
+    } catch {
+      // The session is already ended; an unrevoked refresh token expires on its own.
+    }
+  }
   
   // Return redirect directly without try-catch
   return redirect('/');
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+// app/api/hubs/[hub_id]/projects/[project_id]/search/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { searchProjectItems } from "@/lib/services/aps";
+import { NextRequest } from "next/server";
+
+/**
+ * GET - Searches the folders of a project for items by name and file extension.
+ *
+ * This route extracts the hub_id and project_id from the route parameters, and the search
+ * from the query string: "q" is the text the item names contain, "ext" a comma-separated list
+ * of file extensions, e.g. "rvt,ifc". At least one of them is required.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: hub_id and project_id.
+ * @returns A JSON response with the matching items and their folder paths, and whether the
+ * search stopped before finding every match, or an error message.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ hub_id: string; project_id: string }> }
+) {
+  // Extract hub_id and project_id from the route parameters.
+  const { hub_id, project_id } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized JSON response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const query = (url.searchParams.get("q") || "").trim();
+  // Extensions are matched without the leading dot, as the API reports them.
+  const extensions = (url.searchParams.get("ext") || "")
+    .split(",")
+    .map((extension) => extension.trim().replace(/^\./, "").toLowerCase())
+    .filter(Boolean);
+
+  if (!query && extensions.length === 0) {
+    return Response.json({ error: "Enter a name or a file extension to search for" }, { status: 400 });
+  }
+
+  try {
+    const search = await searchProjectItems(hub_id, project_id, query, extensions, tokens.internalToken.access_token);
+    return Response.json(search);
+  } catch (error) {
+    // Log the error for debugging purposes.
+    console.error("Error searching project:", error);
+    return Response.json({ error: "Failed to search the project" }, { status: 500 });
+  }
+}
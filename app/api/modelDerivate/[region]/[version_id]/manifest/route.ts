@@ -0,0 +1,48 @@
+// app/api/modelDerivate/[region]/[view_id]/manifest/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { getManifest } from "@/lib/services/aps";
+import { ModelDerivativeApiError, Region } from "@aps_sdk/model-derivative";
+import { NextRequest } from "next/server";
+
+/**
+ * GET - Retrieves the full derivative manifest of a version.
+ *
+ * The manifest lists every derivative produced for the version (SVF/SVF2 viewables, 2D sheets,
+ * thumbnails, property databases) with their status, progress and translation messages.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region and version_id.
+ * @returns The manifest as JSON, a 404 response if the version has never been translated, or an error message.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, region } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Convert the encoded version_id (URN) back to its original form.
+    const decodedVersionId = version_id.replace("%2F", "/");
+
+    const manifest = await getManifest(decodedVersionId, region as Region, tokens.internalToken.access_token);
+    return Response.json(manifest);
+  } catch (error) {
+    // A version without a manifest has not been translated.
+    if (error instanceof ModelDerivativeApiError && error.httpStatusCode() === 404) {
+      return Response.json({ error: "This version has not been translated" }, { status: 404 });
+    }
+    // Log any errors encountered during the process.
+    console.error("Error getting manifest:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to fetch the manifest" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+// app/api/modelDerivate/[region]/[view_id]/translation/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { EMPTY_MANIFEST_SUMMARY, summarizeManifest } from "@/lib/manifest";
+import { getManifest, startTranslation } from "@/lib/services/aps";
+import { ModelDerivativeApiError, Region } from "@aps_sdk/model-derivative";
+import { NextRequest } from "next/server";
+
+/**
+ * GET - Retrieves the translation status of a version from its derivative manifest.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region and version_id.
+ * @returns A JSON ManifestSummary with the status, progress, and the errors and warnings of the
+ *          derivative service; the status is "none" if the version has never been translated.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, region } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Convert the encoded version_id (URN) back to its original form.
+    const decodedVersionId = version_id.replace("%2F", "/");
+
+    const manifest = await getManifest(decodedVersionId, region as Region, tokens.internalToken.access_token);
+    return Response.json(summarizeManifest(manifest));
+  } catch (error) {
+    // A version without a manifest has simply not been translated yet.
+    if (error instanceof ModelDerivativeApiError && error.httpStatusCode() === 404) {
+      return Response.json(EMPTY_MANIFEST_SUMMARY);
+    }
+    // Log any errors encountered during the process.
+    console.error("Error getting translation status:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to fetch the translation status" }, { status: 500 });
+  }
+}
+
+/**
+ * POST - Starts translating a version into 2D and 3D viewables.
+ *
+ * Set the "force" query parameter to "true" to translate a version again after a failed translation.
+ * Progress is then followed through GET.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region and version_id.
+ * @returns A JSON response with the result of the job request, or an error message.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, region } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const force = new URL(request.url).searchParams.get("force") === "true";
+
+  try {
+    // Convert the encoded version_id (URN) back to its original form.
+    const decodedVersionId = version_id.replace("%2F", "/");
+
+    const job = await startTranslation(decodedVersionId, region as Region, tokens.internalToken.access_token, force);
+    return Response.json({ result: job.result });
+  } catch (error) {
+    // Log any errors encountered during the process.
+    console.error("Error starting translation:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to start the translation" }, { status: 500 });
+  }
+}
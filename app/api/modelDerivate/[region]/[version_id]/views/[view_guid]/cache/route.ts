@@ -0,0 +1,48 @@
+// app/api/modelDerivate/[region]/[view_id]/views/[view_guid]/cache/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { purgeCachedViewData } from "@/lib/server/cache";
+import { getManifest } from "@/lib/services/aps";
+import { Region } from "@aps_sdk/model-derivative";
+import { NextRequest } from "next/server";
+
+/**
+ * DELETE - Purges the server-side cache entry of a model view.
+ *
+ * The next request for the view fetches its properties and object tree from APS again.
+ * The manifest is fetched first so that only users with access to the model can purge it.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region, version_id, and view_guid.
+ * @returns A JSON response telling whether an entry was removed, or an error message.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string; view_guid: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, view_guid, region } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Convert the encoded version_id (URN) back to its original form.
+    const decodedVersionId = version_id.replace("%2F", "/");
+
+    // Verify that the user can access the model before touching the shared cache.
+    await getManifest(decodedVersionId, region as Region, tokens.internalToken.access_token);
+
+    const purged = await purgeCachedViewData(decodedVersionId, view_guid);
+    return Response.json({ purged });
+  } catch (error) {
+    // Log any errors encountered during the process.
+    console.error("Error purging cache entry:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to purge the cache entry" }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/modelDerivate/[region]/[view_id]/views/[view_guid]/diff/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { getModelViews } from "@/lib/services/aps";
+import { getCachedViewData } from "@/lib/server/cache";
+import { diffProperties } from "@/lib/diff";
+import { VersionDiff } from "@/types";
+import { Region } from "@aps_sdk/model-derivative";
+import { NextRequest } from "next/server";
+
+/**
+ * GET - Compares the properties of a model view with the same view in another version.
+ *
+ * The route's version_id and view_guid identify the newer version being explored. The "base"
+ * query parameter holds the URN of the older version of the same item. The matching view in
+ * the base version is found by name, falling back to its first view with the same role,
+ * because view GUIDs are not guaranteed to be stable between versions.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region, version_id, and view_guid.
+ * @returns A JSON response with the added, removed and modified elements, or an error message.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string; view_guid: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, view_guid, region } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // The base version to compare against is required.
+  const baseVersionId = new URL(request.url).searchParams.get("base");
+  if (!baseVersionId) {
+    return Response.json({ error: "The base version is missing" }, { status: 400 });
+  }
+
+  try {
+    // Convert the encoded version_id (URN) back to its original form.
+    const decodedVersionId = version_id.replace("%2F", "/");
+    const accessToken = tokens.internalToken.access_token;
+
+    // Find the view in the base version that corresponds to the selected view.
+    const [headViews, baseViews] = await Promise.all([
+      getModelViews(decodedVersionId, region as Region, accessToken),
+      getModelViews(baseVersionId, region as Region, accessToken),
+    ]);
+    const headView = headViews.find((view) => view.guid === view_guid);
+    const baseView =
+      baseViews.find((view) => view.name === headView?.name && view.role === headView?.role) ||
+      baseViews.find((view) => view.role === (headView?.role || "3d"));
+
+    if (!baseView) {
+      return Response.json({ error: "No matching view was found in the base version" }, { status: 404 });
+    }
+
+    // Fetch the properties of both versions in parallel.
+    const [headProperties, baseProperties] = await Promise.all([
+      getCachedViewData(decodedVersionId, view_guid, region as Region, accessToken),
+      getCachedViewData(baseVersionId, baseView.guid, region as Region, accessToken),
+    ]);
+
+    // Both property databases must be ready before they can be compared.
+    if (headProperties.isProcessing || baseProperties.isProcessing) {
+      const res: VersionDiff = { isProcessing: true, added: [], removed: [], modified: [] };
+      return Response.json(res);
+    }
+
+    // Return the comparison as JSON.
+    return Response.json(diffProperties(baseProperties.properties, headProperties.properties));
+  } catch (error) {
+    // Log any errors encountered during the process.
+    console.error("Error comparing versions:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to compare versions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,172 @@
+// app/api/modelDerivate/[region]/[view_id]/views/[view_guid]/export/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { createCsvStream, createExportTicket, createXlsxStream, ExportRequest, redeemExportTicket } from "@/lib/server/export";
+import { getCachedViewData } from "@/lib/server/cache";
+import { getSession } from "@/lib/server/session";
+import { getObjectCategoryMap, PropertyColumn, sortByColumn } from "@/lib/properties";
+import { Region } from "@aps_sdk/model-derivative";
+import { NextRequest } from "next/server";
+
+/**
+ * POST - Prepares an export of the properties of a model view as a CSV or XLSX file.
+ *
+ * The "format" query parameter selects the output ("csv" by default, or "xlsx").
+ * The JSON request body may contain:
+ * - "objectIds": the elements currently shown by the client, in the order they are listed;
+ *   otherwise every element is exported.
+ * - "columns": the { category, property } columns to export, e.g. those of the table view;
+ *   otherwise every column used by the elements is exported.
+ * - "sortKey" and "sortDirection": the sort of the table view, applied on the server.
+ *
+ * The file is not returned here: the response holds a ticket, downloaded through GET by the
+ * same session for the same view. The view data is loaded first, so the errors the client can
+ * report are returned here rather than to the download link.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region, version_id, and view_guid.
+ * @returns The export ticket, or a JSON error message.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string; view_guid: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, view_guid, region } = await params;
+
+  // Retrieve authentication tokens and the session from cookies.
+  const tokens = await getAuthTokens();
+  const session = await getSession();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens || !session) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Validate the requested export format.
+  const format = new URL(request.url).searchParams.get("format") || "csv";
+  if (format !== "csv" && format !== "xlsx") {
+    return Response.json({ error: `Unsupported export format: ${format}` }, { status: 400 });
+  }
+
+  // Read the optional elements, columns and sort to export.
+  const exportRequest: ExportRequest = { format, objectIds: null, columns: null, sort: null };
+  try {
+    const body = await request.json();
+    if (Array.isArray(body?.objectIds)) {
+      exportRequest.objectIds = body.objectIds;
+    }
+    if (Array.isArray(body?.columns)) {
+      exportRequest.columns = body.columns
+        .filter((column: PropertyColumn) => typeof column?.category === "string" && typeof column?.property === "string")
+        .map(({ category, property }: PropertyColumn) => ({ category, property }));
+    }
+    if (typeof body?.sortKey === "string") {
+      exportRequest.sort = { key: body.sortKey, direction: body.sortDirection === "desc" ? "desc" : "asc" };
+    }
+  } catch {
+    return Response.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    // Convert the encoded version_id (URN) back to its original form.
+    const decodedVersionId = version_id.replace("%2F", "/");
+
+    // Load the view data now, so it is cached for the download and its errors can be reported.
+    const viewData = await getCachedViewData(decodedVersionId, view_guid, region as Region, tokens.internalToken.access_token);
+    if (viewData.isProcessing) {
+      return Response.json({ error: "Model properties are still being processed" }, { status: 409 });
+    }
+
+    const ticket = createExportTicket(exportRequest, { sessionId: session.sessionId, versionUrn: decodedVersionId, viewGuid: view_guid });
+    return Response.json({ ticket });
+  } catch (error) {
+    // Log any errors encountered during the process.
+    console.error("Error preparing export:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to export properties" }, { status: 500 });
+  }
+}
+
+/**
+ * GET - Exports the properties of a model view as prepared by POST.
+ *
+ * The "ticket" query parameter is the ticket returned by POST; it can be downloaded once, by
+ * the session it was issued to and for the view it was issued for. POST has already loaded
+ * the view data, so it is normally read from the cache here.
+ * The file is generated and streamed on the server so large models never have to be
+ * serialised in the browser, and is downloaded through a link so the browser streams it
+ * to disk instead of holding it in memory.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region, version_id, and view_guid.
+ * @returns A streamed file download, or a JSON error message.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string; view_guid: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, view_guid, region } = await params;
+
+  // Retrieve authentication tokens and the session from cookies.
+  const tokens = await getAuthTokens();
+  const session = await getSession();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens || !session) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Convert the encoded version_id (URN) back to its original form.
+  const decodedVersionId = version_id.replace("%2F", "/");
+
+  // The ticket must have been issued to this session for this view.
+  const exportRequest = redeemExportTicket(new URL(request.url).searchParams.get("ticket") || "", {
+    sessionId: session.sessionId,
+    versionUrn: decodedVersionId,
+    viewGuid: view_guid,
+  });
+  if (!exportRequest) {
+    return Response.json({ error: "The export has expired. Please export again." }, { status: 404 });
+  }
+  const { format, objectIds, columns, sort } = exportRequest;
+
+  try {
+    // Fetch all properties and the object tree for the specified model view.
+    const viewData = await getCachedViewData(decodedVersionId, view_guid, region as Region, tokens.internalToken.access_token);
+
+    // The property database must be ready before it can be exported.
+    if (viewData.isProcessing) {
+      return Response.json({ error: "Model properties are still being processed" }, { status: 409 });
+    }
+
+    // Keep only the requested elements, in the order the client listed them.
+    const propertiesMap = new Map(viewData.properties.map((item) => [item.objectid, item]));
+    const selected = objectIds
+      ? objectIds.map((objectId) => propertiesMap.get(objectId)).filter((item) => item !== undefined)
+      : viewData.properties;
+    const items = sort ? sortByColumn(selected, columns || [], sort.key, sort.direction) : selected;
+
+    if (format === "csv") {
+      return new Response(createCsvStream(items, columns || undefined), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="properties-${view_guid}.csv"`,
+        },
+      });
+    }
+
+    // The XLSX export has one sheet per Revit category, which is read from the object tree.
+    return new Response(createXlsxStream(items, getObjectCategoryMap(viewData.objectTree), columns || undefined), {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="properties-${view_guid}.xlsx"`,
+      },
+    });
+  } catch (error) {
+    // Log any errors encountered during the process.
+    console.error("Error exporting properties:", error);
+    // Return a 500 error response if something goes wrong.
+    return Response.json({ error: "Failed to export properties" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/modelDerivate/[region]/[view_id]/views/[view_guid]/status/route.ts
+import { getAuthTokens } from "@/lib/server/auth";
+import { createTranslationEventStream } from "@/lib/server/translation";
+import { Region } from "@aps_sdk/model-derivative";
+import { NextRequest } from "next/server";
+
+/**
+ * GET - Streams the translation status of a model view as server-sent events.
+ *
+ * Each "status" event reports the manifest status, its progress percentage, and whether the
+ * property database is still being extracted. The stream ends once the view is ready or the
+ * translation has failed, so clients never need to poll the properties themselves.
+ *
+ * @param request - The incoming Next.js request.
+ * @param context - Contains route parameters: region, version_id, and view_guid.
+ * @returns A text/event-stream response, or a JSON error message.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ region: string; version_id: string; view_guid: string }> }
+) {
+  // Destructure the route parameters.
+  const { version_id, view_guid, region } = await params;
+
+  // Retrieve authentication tokens from cookies.
+  const tokens = await getAuthTokens();
+
+  // If tokens are missing or invalid, return a 401 Unauthorized response.
+  if (!tokens) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Convert the encoded version_id (URN) back to its original form.
+  const decodedVersionId = version_id.replace("%2F", "/");
+
+  // Polling stops when the client disconnects, through the request's abort signal.
+  const stream = createTranslationEventStream(decodedVersionId, view_guid, region as Region, tokens.internalToken.access_token, request.signal);
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
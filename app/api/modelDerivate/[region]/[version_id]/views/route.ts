@@ -2,6 +2,7 @@
 import { getAuthTokens } from "@/lib/server/auth";
 import { getModelViews } from "@/lib/services/aps";
 import { Region } from "@aps_sdk/data-management";
+import { ModelDerivativeApiError } from "@aps_sdk/model-derivative";
 import { NextRequest } from "next/server";
 
 /**
@@ -13,6 +14,7 @@ import { NextRequest } from "next/server";
  * Otherwise, the version_id is decoded by replacing "%2F" with "/"
  * and passed along with the region and access token to fetch model views.
  * If successful, the views are returned as a JSON response.
+ * A version that has not been translated has no views, which results in a 404 response.
  * Any errors during the process are caught and result in a 500 error response.
  *
  * @param request - The incoming Next.js request.
@@ -41,9 +43,18 @@ export async function GET(
     // Fetch model views using the decoded version_id, region, and internal access token.
     const views = await getModelViews(decodedVersionId, region as Region, tokens.internalToken.access_token);
 
+    // A manifest without viewables has no metadata; the version must be translated first.
+    if (views.length === 0) {
+      return Response.json({ error: "No views found" }, { status: 404 });
+    }
+
     // Return the fetched views as a JSON response.
     return Response.json(views);
   } catch (error) {
+    // The derivative service has no metadata for versions that were never translated.
+    if (error instanceof ModelDerivativeApiError && error.httpStatusCode() === 404) {
+      return Response.json({ error: "No views found" }, { status: 404 });
+    }
     // Log any errors encountered during the fetch process.
     console.error("Error getting views:", error);
     // Return a JSON response with a 500 status if fetching views fails.
@@ -0,0 +1,55 @@
+// app/auth/error/page.tsx
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+// Explanation of each reason the callback reports a failed login.
+const LOGIN_ERRORS: Record<string, { title: string; message: string }> = {
+    expired: {
+        title: "Your sign-in expired",
+        message: "The sign-in took longer than 10 minutes, or it was started in another browser or tab. Please sign in again.",
+    },
+    state_mismatch: {
+        title: "Sign-in could not be verified",
+        message: "The response from Autodesk does not match the sign-in started in this browser, so it was rejected. Please sign in again.",
+    },
+    access_denied: {
+        title: "Access was not granted",
+        message: "Revit Parameter Explorer needs access to your Autodesk data to browse your projects. Sign in again and allow access to continue.",
+    },
+    authorization_failed: {
+        title: "Autodesk refused the sign-in",
+        message: "The Autodesk login page reported an error. Please try again, or contact your administrator if it persists.",
+    },
+    missing_code: {
+        title: "Sign-in was incomplete",
+        message: "Autodesk did not return an authorization code. Please sign in again.",
+    },
+    token_exchange: {
+        title: "Sign-in failed",
+        message: "The authorization code could not be exchanged for an access token. Please sign in again.",
+    },
+};
+
+/**
+ * LoginErrorPage Component
+ * Explains why signing in failed, from the reason passed by the OAuth callback, and offers to sign in again.
+ */
+export default async function LoginErrorPage({ searchParams }: { searchParams: Promise<{ reason?: string }> }) {
+    const { reason } = await searchParams;
+    const error = LOGIN_ERRORS[reason || ""] || LOGIN_ERRORS.authorization_failed;
+
+    return (
+        <div className="min-h-screen flex flex-col justify-center items-center p-4">
+            <h2 className="text-4xl font-bold mb-4 text-center">{error.title}</h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6 text-center max-w-md">{error.message}</p>
+            <div className="flex gap-2">
+                <Button asChild size="lg" className="bg-blue-500 text-white hover:bg-blue-600">
+                    <a href="/api/auth/login">Sign in again</a>
+                </Button>
+                <Button asChild size="lg" variant="outline">
+                    <Link href="/">Back to the explorer</Link>
+                </Button>
+            </div>
+        </div>
+    );
+}
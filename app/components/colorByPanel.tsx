@@ -0,0 +1,102 @@
+// app/components/colorByPanel.tsx
+import { Palette, X } from "lucide-react";
+import React, { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { getPropertyColumnKey, PropertyColumn } from "@/lib/properties";
+import { ColorTheme } from "@/lib/theming";
+
+interface ColorByPanelProps {
+    columns: PropertyColumn[];
+    column: PropertyColumn | null;
+    theme: ColorTheme | null;
+    onChange: (column: PropertyColumn | null) => void;
+}
+
+/**
+ * ColorByPanel Component
+ * Picks the parameter the model viewer colours elements by, and shows the legend of the
+ * resulting theme: one swatch per value, or the stops of the gradient for numeric values.
+ */
+const ColorByPanel: React.FC<ColorByPanelProps> = ({ columns, column, theme, onChange }) => {
+    // Parameters grouped by property group for the picker.
+    const groups = useMemo(() => {
+        const byCategory = new Map<string, PropertyColumn[]>();
+        columns.forEach((candidate) => {
+            byCategory.set(candidate.category, [...(byCategory.get(candidate.category) || []), candidate]);
+        });
+        return [...byCategory.entries()];
+    }, [columns]);
+
+    const selectedKey = column ? getPropertyColumnKey(column) : "";
+
+    return (
+        <div className="h-full flex flex-col border rounded dark:border-slate-700">
+            <div className="flex items-center gap-2 px-2 py-2 border-b dark:border-slate-700 font-semibold text-sm text-gray-700 dark:text-gray-300">
+                <Palette className="h-4 w-4" />
+                Color by parameter
+                {column && (
+                    <Button variant="ghost" size="icon" onClick={() => onChange(null)} className="size-7 ml-auto" title="Clear colors">
+                        <X className="h-4 w-4" />
+                    </Button>
+                )}
+            </div>
+            <div className="p-2">
+                <select
+                    value={selectedKey}
+                    onChange={(e) => onChange(columns.find((candidate) => getPropertyColumnKey(candidate) === e.target.value) || null)}
+                    className="w-full px-2 py-1 border rounded text-sm dark:bg-slate-800 dark:text-white dark:border-slate-600"
+                >
+                    <option value="">None</option>
+                    {groups.map(([category, groupColumns]) => (
+                        <optgroup key={category} label={category}>
+                            {groupColumns.map((candidate) => {
+                                const key = getPropertyColumnKey(candidate);
+                                return (
+                                    <option key={key} value={key}>
+                                        {candidate.property}
+                                    </option>
+                                );
+                            })}
+                        </optgroup>
+                    ))}
+                </select>
+            </div>
+
+            {/* Legend of the active theme */}
+            {theme && (
+                <div className="flex-1 overflow-y-auto px-2 pb-2 text-sm">
+                    {theme.kind === "numeric" ? (
+                        <div className="flex gap-2">
+                            <div
+                                className="w-3 rounded"
+                                style={{ background: `linear-gradient(to bottom, ${theme.legend.map((entry) => entry.color).join(", ")})` }}
+                            />
+                            <ul className="flex flex-col justify-between py-0.5">
+                                {theme.legend.map((entry) => (
+                                    <li key={entry.label} className="dark:text-white">
+                                        {entry.label}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : (
+                        <ul className="space-y-0.5">
+                            {theme.legend.map((entry) => (
+                                <li key={entry.label} title={entry.label} className="flex items-center gap-2 dark:text-white">
+                                    <span className="w-3 h-3 shrink-0 rounded-sm" style={{ backgroundColor: entry.color }} />
+                                    <span className="flex-1 truncate">{entry.label}</span>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">{entry.count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        {theme.missing.length.toLocaleString()} element{theme.missing.length === 1 ? "" : "s"} without a value, ghosted in the viewer
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ColorByPanel;
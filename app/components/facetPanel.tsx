@@ -0,0 +1,96 @@
+// app/components/facetPanel.tsx
+import { ChevronDown, ChevronRight } from "lucide-react";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { EMPTY_FACET_SELECTION, FACET_KEYS, FACET_LABELS, FacetKey, FacetSelection, FacetValue, isFacetSelectionEmpty } from "@/lib/facets";
+
+interface FacetPanelProps {
+    values: Record<FacetKey, FacetValue[]>;
+    selection: FacetSelection;
+    onChange: (selection: FacetSelection) => void;
+}
+
+/**
+ * FacetSection renders the values of a single facet as a collapsible checklist with counts.
+ */
+const FacetSection: React.FC<{
+    label: string;
+    values: FacetValue[];
+    selected: string[];
+    onToggle: (value: string) => void;
+}> = ({ label, values, selected, onToggle }) => {
+    const [expanded, setExpanded] = useState(true);
+
+    return (
+        <div className="border-b dark:border-slate-700 last:border-b-0">
+            <button onClick={() => setExpanded((prev) => !prev)} className="w-full flex items-center gap-1 px-2 py-2 font-semibold text-sm text-gray-700 dark:text-gray-300">
+                {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                {label}
+                {selected.length > 0 && <span className="ml-auto text-xs font-normal text-blue-600 dark:text-blue-400">{selected.length} selected</span>}
+            </button>
+            {expanded && (
+                <div className="max-h-60 overflow-y-auto pb-2">
+                    {values.length > 0 ? (
+                        values.map(({ value, count }) => (
+                            <label
+                                key={value}
+                                title={value}
+                                className={`flex items-center gap-2 px-3 py-0.5 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-slate-700 ${
+                                    count === 0 ? "text-gray-400 dark:text-gray-500" : "dark:text-white"
+                                }`}
+                            >
+                                <input type="checkbox" checked={selected.includes(value)} onChange={() => onToggle(value)} />
+                                <span className="flex-1 truncate">{value}</span>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">{count}</span>
+                            </label>
+                        ))
+                    ) : (
+                        <p className="px-3 text-sm text-gray-500 dark:text-gray-400">No values</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * FacetPanel Component
+ * Renders the Category, Family and Type facets. Ticking values narrows the tree and list views;
+ * the counts are computed by the parent and follow the search query and the other facets.
+ */
+const FacetPanel: React.FC<FacetPanelProps> = ({ values, selection, onChange }) => {
+    /**
+     * handleToggle - Ticks or unticks a value of the given facet.
+     */
+    const handleToggle = (key: FacetKey, value: string) => {
+        const current = selection[key];
+        onChange({
+            ...selection,
+            [key]: current.includes(value) ? current.filter((existing) => existing !== value) : [...current, value],
+        });
+    };
+
+    return (
+        <div className="h-full flex flex-col border rounded dark:border-slate-700 overflow-hidden">
+            <div className="flex items-center justify-between px-2 py-1 border-b dark:border-slate-700 bg-gray-100 dark:bg-neutral-800">
+                <h3 className="font-semibold text-sm text-gray-700 dark:text-gray-300">Filters</h3>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isFacetSelectionEmpty(selection)}
+                    onClick={() => onChange(EMPTY_FACET_SELECTION)}
+                    className="h-7"
+                >
+                    Clear
+                </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+                {FACET_KEYS.map((key) => (
+                    <FacetSection key={key} label={FACET_LABELS[key]} values={values[key]} selected={selection[key]} onToggle={(value) => handleToggle(key, value)} />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default FacetPanel;
@@ -0,0 +1,215 @@
+// app/components/manifestInspector.tsx
+import { Manifest, ManifestResources } from "@aps_sdk/model-derivative";
+import { AlertTriangle, ChevronDown, ChevronRight, FileSearch, Info, RefreshCw, X, XCircle } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { collectManifestMessages, FAILED_MANIFEST_STATUSES, getManifestProgress, PENDING_MANIFEST_STATUSES } from "@/lib/manifest";
+import { ManifestMessage } from "@/types";
+
+interface ManifestInspectorProps {
+    region: string;
+    // Base64-encoded URN of the inspected version.
+    versionUrn: string;
+    versionName: string;
+    onClose: () => void;
+}
+
+/**
+ * getStatusBadge - Returns the badge style of a manifest or derivative status.
+ */
+const getStatusBadge = (status: string): string => {
+    if (status === "success" || status === "complete") return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+    if (FAILED_MANIFEST_STATUSES.includes(status)) return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    if (PENDING_MANIFEST_STATUSES.includes(status)) return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200";
+    return "bg-gray-100 text-gray-800 dark:bg-slate-700 dark:text-gray-200";
+};
+
+/**
+ * StatusBadge Component
+ * Renders a manifest or derivative status as a coloured badge.
+ */
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${getStatusBadge(status)}`}>{status}</span>
+);
+
+/**
+ * MessageList Component
+ * Lists the errors, warnings and information messages of the derivative service.
+ */
+const MessageList: React.FC<{ messages: ManifestMessage[] }> = ({ messages }) => (
+    <ul className="space-y-1">
+        {messages.map((message, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm dark:text-gray-200">
+                {message.type === "error" ? (
+                    <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                ) : message.type === "warning" ? (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-500" />
+                ) : (
+                    <Info className="h-4 w-4 mt-0.5 shrink-0 text-blue-500" />
+                )}
+                <span className="break-words min-w-0">
+                    {message.message}
+                    {message.code && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({message.code})</span>}
+                </span>
+            </li>
+        ))}
+    </ul>
+);
+
+/**
+ * ResourceNode Component
+ * Renders a derivative resource (viewable, geometry, thumbnail, property database...) and, when
+ * expanded, its child resources.
+ */
+const ResourceNode: React.FC<{ resource: ManifestResources; level: number }> = ({ resource, level }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const hasChildren = !!resource.children && resource.children.length > 0;
+
+    return (
+        <div>
+            <div
+                className={`flex items-center gap-2 py-1 text-sm rounded ${hasChildren ? "cursor-pointer hover:bg-gray-100 dark:hover:bg-slate-800" : ""}`}
+                style={{ paddingLeft: `${level * 16}px` }}
+                onClick={() => hasChildren && setIsOpen((prev) => !prev)}
+            >
+                <span className="w-4 shrink-0">
+                    {hasChildren && (isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                </span>
+                <span className="font-medium dark:text-white truncate" title={resource.name || resource.role}>
+                    {resource.name || resource.role}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate" title={resource.mime || resource.type}>
+                    {resource.role}
+                    {resource.mime ? ` · ${resource.mime}` : ` · ${resource.type}`}
+                </span>
+                <span className="ml-auto shrink-0">
+                    <StatusBadge status={resource.status} />
+                </span>
+            </div>
+            {isOpen && hasChildren && resource.children!.map((child) => <ResourceNode key={child.guid} resource={child} level={level + 1} />)}
+        </div>
+    );
+};
+
+/**
+ * ManifestInspector Component
+ * Shows the derivative manifest of a version: its overall translation status, every derivative
+ * with its resources, and the messages logged by the derivative service.
+ */
+const ManifestInspector: React.FC<ManifestInspectorProps> = ({ region, versionUrn, versionName, onClose }) => {
+    const [manifest, setManifest] = useState<Manifest | null>(null);
+    const [isLoading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * fetchManifest - Loads the manifest of the inspected version.
+     */
+    const fetchManifest = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/modelDerivate/${region}/${versionUrn.replace("/", "%2F")}/manifest`);
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || `Failed to load the manifest (${res.status}: ${res.statusText})`);
+            }
+            setManifest(data);
+        } catch (error) {
+            console.error("Error fetching manifest:", error);
+            setManifest(null);
+            setError(error instanceof Error ? error.message : "An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    }, [region, versionUrn]);
+
+    useEffect(() => {
+        fetchManifest();
+    }, [fetchManifest]);
+
+    const messages = manifest ? collectManifestMessages(manifest) : [];
+
+    return (
+        <div className="h-full flex flex-col border-l dark:border-slate-700 bg-white dark:bg-card overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between gap-2 p-4 border-b dark:border-slate-700">
+                <div className="flex items-center gap-2 min-w-0">
+                    <FileSearch className="h-5 w-5 shrink-0 text-blue-500" />
+                    <h2 className="text-lg font-semibold truncate dark:text-white" title={versionName}>
+                        {versionName}
+                    </h2>
+                </div>
+                <div className="flex items-center shrink-0">
+                    <Button variant="ghost" size="icon" onClick={fetchManifest} disabled={isLoading} title="Reload the manifest" className="hover:bg-gray-100 dark:hover:bg-slate-800">
+                        <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={onClose} title="Close the inspector" className="hover:bg-gray-100 dark:hover:bg-slate-800">
+                        <X className="h-5 w-5" />
+                    </Button>
+                </div>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Spinner size="large" />
+                    </div>
+                ) : error ? (
+                    <p className="text-center text-gray-500 dark:text-gray-400">{error}</p>
+                ) : manifest ? (
+                    <>
+                        {/* Overall translation status */}
+                        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                            <dt className="text-gray-500 dark:text-gray-400">Status</dt>
+                            <dd>
+                                <StatusBadge status={manifest.status} />
+                            </dd>
+                            <dt className="text-gray-500 dark:text-gray-400">Progress</dt>
+                            <dd className="dark:text-white">{getManifestProgress(manifest)}%</dd>
+                            <dt className="text-gray-500 dark:text-gray-400">Source type</dt>
+                            <dd className="dark:text-white">{manifest.type}</dd>
+                            <dt className="text-gray-500 dark:text-gray-400">Region</dt>
+                            <dd className="dark:text-white">{manifest.region}</dd>
+                            <dt className="text-gray-500 dark:text-gray-400">Thumbnail</dt>
+                            <dd className="dark:text-white">{manifest.hasThumbnail === "true" ? "Yes" : "No"}</dd>
+                            <dt className="text-gray-500 dark:text-gray-400">Manifest version</dt>
+                            <dd className="dark:text-white">{manifest.version}</dd>
+                        </dl>
+
+                        {/* Messages of the derivative service */}
+                        {messages.length > 0 && (
+                            <section>
+                                <h3 className="text-sm font-semibold mb-2 dark:text-white">Messages</h3>
+                                <MessageList messages={messages} />
+                            </section>
+                        )}
+
+                        {/* Derivatives and their resources */}
+                        <section>
+                            <h3 className="text-sm font-semibold mb-2 dark:text-white">Derivatives ({manifest.derivatives?.length || 0})</h3>
+                            <div className="space-y-3">
+                                {manifest.derivatives?.map((derivative, index) => (
+                                    <div key={index} className="border rounded dark:border-slate-700 p-2">
+                                        <div className="flex items-center gap-2 mb-1">
+                                            <span className="font-semibold text-sm uppercase dark:text-white">{derivative.outputType}</span>
+                                            <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{derivative.name}</span>
+                                            <span className="ml-auto flex items-center gap-2 shrink-0">
+                                                <span className="text-xs text-gray-500 dark:text-gray-400">{derivative.progress}</span>
+                                                <StatusBadge status={derivative.status} />
+                                            </span>
+                                        </div>
+                                        {derivative.children?.map((resource) => <ResourceNode key={resource.guid} resource={resource} level={0} />)}
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    </>
+                ) : null}
+            </div>
+        </div>
+    );
+};
+
+export default ManifestInspector;
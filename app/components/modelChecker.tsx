@@ -0,0 +1,252 @@
+// app/components/modelChecker.tsx
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, Download, Play, Save, Trash2, Upload, XCircle } from "lucide-react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { QueryContext } from "@/lib/query";
+import { evaluateRuleSet, EXAMPLE_RULE_SET, parseRuleSet, RuleResult, RuleSet } from "@/lib/rules";
+
+interface ModelCheckerProps {
+    data: PropertiesDataCollection[];
+    context: QueryContext;
+    onSelect: (objectId: number) => void;
+}
+
+// localStorage key of the rule sets saved by the user.
+const SAVED_RULE_SETS_KEY = "savedRuleSets";
+
+/**
+ * RuleResultSection renders the violations of a single rule as a collapsible list.
+ */
+const RuleResultSection: React.FC<{ result: RuleResult; onSelect: (objectId: number) => void }> = ({ result, onSelect }) => {
+    const [expanded, setExpanded] = useState(false);
+    const { rule, checked, violations } = result;
+    const passed = violations.length === 0;
+
+    return (
+        <div className="border-b dark:border-slate-700 last:border-b-0">
+            <button
+                onClick={() => setExpanded((prev) => !prev)}
+                disabled={passed}
+                className="w-full flex items-center gap-2 px-2 py-2 text-left text-sm dark:text-white disabled:cursor-default"
+            >
+                {passed ? <span className="w-4" /> : expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                {passed ? (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                ) : rule.severity === "warning" ? (
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+                ) : (
+                    <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+                )}
+                <span className="flex-1 truncate" title={rule.description || rule.name}>
+                    {rule.name}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {violations.length} of {checked} elements
+                </span>
+            </button>
+            {expanded && !passed && (
+                <ul className="max-h-72 overflow-y-auto pb-2">
+                    {violations.map((violation, index) => (
+                        <li key={`${violation.objectid}-${index}`}>
+                            <button
+                                onClick={() => onSelect(violation.objectid)}
+                                className="w-full text-left px-8 py-0.5 text-sm hover:bg-gray-100 dark:hover:bg-slate-700 dark:text-white"
+                            >
+                                <span className="block truncate">
+                                    {violation.name} <span className="text-gray-500 dark:text-gray-400">[{violation.objectid}]</span>
+                                </span>
+                                <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{violation.message}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+/**
+ * ModelChecker Component
+ * Edits a JSON rule set, runs it over the loaded properties and lists the violations grouped by
+ * rule. Rule sets are saved in the browser so they can be reused on other models, and can be
+ * imported from and exported to files to share them with the team.
+ */
+const ModelChecker: React.FC<ModelCheckerProps> = ({ data, context, onSelect }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [text, setText] = useState(() => JSON.stringify(EXAMPLE_RULE_SET, null, 2));
+    const [savedRuleSets, setSavedRuleSets] = useState<RuleSet[]>([]);
+    const [results, setResults] = useState<RuleResult[] | null>(null);
+
+    const parsed = useMemo(() => parseRuleSet(text), [text]);
+
+    // Load the saved rule sets and open the first one (client-only).
+    useEffect(() => {
+        const stored = localStorage.getItem(SAVED_RULE_SETS_KEY);
+        if (!stored) return;
+        try {
+            const ruleSets: RuleSet[] = JSON.parse(stored);
+            setSavedRuleSets(ruleSets);
+            if (ruleSets.length > 0) setText(JSON.stringify(ruleSets[0], null, 2));
+        } catch (error) {
+            console.error("Invalid saved rule sets:", error);
+        }
+    }, []);
+
+    // Results refer to the elements they were computed on, so discard them when the model changes.
+    useEffect(() => {
+        setResults(null);
+    }, [data]);
+
+    /**
+     * persistRuleSets - Updates the saved rule sets and stores them in localStorage.
+     */
+    const persistRuleSets = (ruleSets: RuleSet[]) => {
+        setSavedRuleSets(ruleSets);
+        localStorage.setItem(SAVED_RULE_SETS_KEY, JSON.stringify(ruleSets));
+    };
+
+    /**
+     * handleSave - Saves the rule set in the editor, replacing a saved rule set with the same name.
+     */
+    const handleSave = () => {
+        const ruleSet = parsed.ruleSet;
+        if (!ruleSet) return;
+        const others = savedRuleSets.filter((saved) => saved.name !== ruleSet.name);
+        persistRuleSets([...others, ruleSet].sort((a, b) => a.name.localeCompare(b.name)));
+    };
+
+    /**
+     * handleDelete - Removes the saved rule set with the name of the one in the editor.
+     */
+    const handleDelete = () => {
+        const name = parsed.ruleSet?.name;
+        persistRuleSets(savedRuleSets.filter((saved) => saved.name !== name));
+    };
+
+    /**
+     * handleOpen - Loads a saved rule set into the editor.
+     */
+    const handleOpen = (name: string) => {
+        const ruleSet = savedRuleSets.find((saved) => saved.name === name);
+        if (ruleSet) {
+            setText(JSON.stringify(ruleSet, null, 2));
+            setResults(null);
+        }
+    };
+
+    /**
+     * handleImport - Loads a rule set file into the editor.
+     */
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        setText(await file.text());
+        setResults(null);
+        if (fileInputRef.current) fileInputRef.current.value = "";
+    };
+
+    /**
+     * handleExport - Downloads the rule set in the editor as a JSON file.
+     */
+    const handleExport = () => {
+        const ruleSet = parsed.ruleSet;
+        if (!ruleSet) return;
+        const url = URL.createObjectURL(new Blob([JSON.stringify(ruleSet, null, 2)], { type: "application/json" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${ruleSet.name.replace(/[^\w-]+/g, "_")}.rules.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    /**
+     * handleRun - Evaluates the rule set over the loaded properties.
+     */
+    const handleRun = () => {
+        if (parsed.ruleSet) setResults(evaluateRuleSet(parsed.ruleSet, data, context));
+    };
+
+    const isSaved = savedRuleSets.some((saved) => saved.name === parsed.ruleSet?.name);
+    const violationCount = results?.reduce((sum, result) => sum + result.violations.length, 0) ?? 0;
+    const failedRules = results?.filter((result) => result.violations.length > 0).length ?? 0;
+
+    return (
+        <div className="w-full h-full flex flex-col">
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center gap-2 p-2 border-b dark:border-slate-700">
+                <select
+                    value={isSaved ? parsed.ruleSet!.name : ""}
+                    onChange={(e) => handleOpen(e.target.value)}
+                    className="px-2 py-1 border rounded text-sm w-56 dark:bg-slate-800 dark:text-white dark:border-slate-600"
+                >
+                    <option value="" disabled>
+                        {savedRuleSets.length > 0 ? "Open a saved rule set..." : "No saved rule sets"}
+                    </option>
+                    {savedRuleSets.map((ruleSet) => (
+                        <option key={ruleSet.name} value={ruleSet.name}>
+                            {ruleSet.name}
+                        </option>
+                    ))}
+                </select>
+                <Button variant="outline" size="sm" onClick={handleSave} disabled={!parsed.ruleSet}>
+                    <Save />
+                    Save
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDelete} disabled={!isSaved}>
+                    <Trash2 />
+                    Delete
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                    <Upload />
+                    Import
+                </Button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+                <Button variant="outline" size="sm" onClick={handleExport} disabled={!parsed.ruleSet}>
+                    <Download />
+                    Export
+                </Button>
+                <Button size="sm" onClick={handleRun} disabled={!parsed.ruleSet || data.length === 0} className="ml-auto">
+                    <Play />
+                    Run checks
+                </Button>
+            </div>
+
+            <div className="flex-1 flex min-h-0">
+                {/* Rule set editor */}
+                <div className="w-1/2 flex flex-col border-r dark:border-slate-700">
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        spellCheck={false}
+                        className="flex-1 p-2 font-mono text-xs resize-none outline-none dark:bg-slate-900 dark:text-white"
+                    />
+                    {parsed.error && <p className="px-2 py-1 text-sm text-red-600 dark:text-red-400 border-t dark:border-slate-700">{parsed.error}</p>}
+                </div>
+
+                {/* Violations grouped by rule */}
+                <div className="w-1/2 flex flex-col">
+                    {results ? (
+                        <>
+                            <div className="px-2 py-1 text-sm border-b dark:border-slate-700 text-gray-600 dark:text-gray-300">
+                                {violationCount === 0
+                                    ? `All ${results.length} rules passed on ${data.length} elements`
+                                    : `${violationCount} violations of ${failedRules} of ${results.length} rules on ${data.length} elements`}
+                            </div>
+                            <div className="flex-1 overflow-y-auto">
+                                {results.map((result) => (
+                                    <RuleResultSection key={result.rule.id} result={result} onSelect={onSelect} />
+                                ))}
+                            </div>
+                        </>
+                    ) : (
+                        <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Run the checks to list the elements violating each rule.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModelChecker;
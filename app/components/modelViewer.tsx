@@ -4,6 +4,7 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Loader2, AlertTriangle } from 'lucide-react';
 import Script from 'next/script';
+import { ColorTheme } from '@/lib/theming';
 
 // =====================
 // Autodesk Viewer Types
@@ -16,6 +17,8 @@ interface ViewerInitOptions {
 
 interface ViewerNode {
   getDefaultGeometry: () => ViewerGeometry;
+  findByGuid: (guid: string) => ViewerGeometry | null;
+  search: (filter: { type: string; role?: string }) => ViewerGeometry[];
 }
 
 interface ViewerGeometry {
@@ -26,30 +29,80 @@ interface ViewerDocument {
   getRoot: () => ViewerNode;
 }
 
+// THREE.Vector4 holding the red, green, blue and intensity of a theming colour, each from 0 to 1.
+interface ThemingColor {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+interface ViewerSelectionEvent {
+  dbIdArray: number[];
+}
+
 interface Viewer3D {
   start: () => boolean;
   finish: () => void;
   setTheme: (theme: string) => void;
-  loadDocumentNode: (doc: ViewerDocument, geometryItem: ViewerGeometry) => void;
+  loadDocumentNode: (doc: ViewerDocument, geometryItem: ViewerGeometry) => Promise<unknown>;
+  addEventListener: (type: string, callback: (event: ViewerSelectionEvent) => void) => void;
+  removeEventListener: (type: string, callback: (event: ViewerSelectionEvent) => void) => void;
+  isolate: (dbIds?: number[]) => void;
+  fitToView: (dbIds?: number[]) => void;
+  select: (dbIds: number[]) => void;
+  clearSelection: () => void;
+  setThemingColor: (dbId: number, color: ThemingColor, model?: unknown, recursive?: boolean) => void;
+  clearThemingColors: (model?: unknown) => void;
 }
 
 interface ViewerProps {
+  // Base64-encoded version URN, with "/" encoded as "%2F" as in the API routes.
   versionId: string | null;
+  // GUID of the view to display; the document's default geometry is shown when it is not found.
+  viewGuid?: string | null;
+  // "2d" for sheets and 2D views, which are loaded as sheets, or "3d".
+  viewRole?: string | null;
+  // Object ID (dbId) of the element selected elsewhere in the app, which is isolated and focused.
+  selectedObjectId?: number | null;
+  // Called with the object ID of an element clicked in the viewer.
+  onSelect?: (objectId: number) => void;
+  // Colours of the elements; elements without a colour are ghosted while a theme is applied.
+  colorTheme?: ColorTheme | null;
 }
 
+/**
+ * toThemingColor - Converts a "#rrggbb" colour to the vector expected by setThemingColor.
+ */
+const toThemingColor = (color: string): ThemingColor => {
+  const channel = (offset: number) => parseInt(color.substring(offset, offset + 2), 16) / 255;
+  return new window.THREE.Vector4(channel(1), channel(3), channel(5), 1);
+};
+
 // =====================
 // Viewer Component
 // =====================
 
-export function Viewer({ versionId }: ViewerProps) {
+export function Viewer({ versionId, viewGuid, viewRole, selectedObjectId, onSelect, colorTheme }: ViewerProps) {
   // References to the container element and the Autodesk Viewer instance
   const containerRef = useRef<HTMLDivElement>(null);
   const viewerRef = useRef<Viewer3D | null>(null);
+  // Latest selection callback, read by the viewer's event listener
+  const onSelectRef = useRef(onSelect);
+  // Object ID last clicked in the viewer, which is already selected there and must not be isolated
+  const viewerSelectionRef = useRef<number | null>(null);
+  // Whether a colour theme is applied, in which case the selection is not isolated
+  const hasThemeRef = useRef(false);
 
   // Component state to handle loading, error messages, and script readiness
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [scriptsReady, setScriptsReady] = useState<boolean>(false);
+  const [modelLoaded, setModelLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  }, [onSelect]);
 
   // =====================
   // Function: getAccessToken
@@ -77,7 +130,7 @@ export function Viewer({ versionId }: ViewerProps) {
   // Initializes the Autodesk Viewer by setting up the environment and viewer configuration.
   // Wrapped in a try-catch block to handle any errors during initialization.
   const initViewer = useCallback(() => {
-    if (!containerRef.current || !window.Autodesk?.Viewing) return;
+    if (!containerRef.current || !window.Autodesk?.Viewing || viewerRef.current) return;
 
     // Initialize Autodesk Viewing environment
     window.Autodesk.Viewing.Initializer(
@@ -101,6 +154,14 @@ export function Viewer({ versionId }: ViewerProps) {
             throw new Error('Viewer failed to start');
           }
           viewerRef.current.setTheme('light-theme');
+
+          // Report elements clicked in the viewer so the rest of the app can select them
+          viewerRef.current.addEventListener(window.Autodesk.Viewing.SELECTION_CHANGED_EVENT, (event) => {
+            const objectId = event.dbIdArray[0];
+            if (objectId === undefined) return;
+            viewerSelectionRef.current = objectId;
+            onSelectRef.current?.(objectId);
+          });
         } catch (err) {
           console.error('Failed to initialize viewer:', err);
           setError('Failed to initialize the viewer');
@@ -112,8 +173,9 @@ export function Viewer({ versionId }: ViewerProps) {
   // =====================
   // Function: handleScriptsLoaded
   // =====================
-  // Callback invoked when the external Autodesk Viewer script has loaded successfully.
-  // Sets the scriptsReady state to true and initializes the viewer.
+  // Callback invoked once the external Autodesk Viewer script is loaded, and again on every mount
+  // after that: the Viewer unmounts when leaving the model tab, and next/script only fires onLoad
+  // the first time a script loads. Sets the scriptsReady state to true and initializes the viewer.
   const handleScriptsLoaded = useCallback(() => {
     setScriptsReady(true);
     initViewer();
@@ -132,29 +194,39 @@ export function Viewer({ versionId }: ViewerProps) {
   // =====================
   // Effect: Load Model on versionId change
   // =====================
-  // Whenever the versionId or script readiness changes, attempt to load the model.
+  // Whenever the versionId, the selected view or script readiness changes, attempt to load the model.
   // Converts the versionId into a proper base64 URN and handles success and failure callbacks.
   useEffect(() => {
     if (!versionId || !viewerRef.current || !window.Autodesk?.Viewing) return;
 
     setLoading(true);
     setError(null);
+    setModelLoaded(false);
+    viewerSelectionRef.current = null;
 
-    // Replace URL-encoded forward slashes for compatibility if needed.
-    const formattedVersionId = versionId.replace(/%2F/g, '_');
-
-    // Convert the formatted versionId to a base64 URN and remove any trailing '=' characters.
-    const urn = window.btoa(formattedVersionId).replace(/=/g, '');
+    // Decode the URL-encoded slashes, then convert the base64 URN to its URL-safe form without padding.
+    const urn = versionId.replace(/%2F/g, '/').replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
 
     // Callback when the document is loaded successfully
     const onDocumentLoadSuccess = (doc: ViewerDocument) => {
       try {
-        // Load the default geometry of the document into the viewer
-        viewerRef.current?.loadDocumentNode(doc, doc.getRoot().getDefaultGeometry());
+        // Load the selected view, a sheet for 2D views, falling back to the default geometry of the document
+        const root = doc.getRoot();
+        const geometry =
+          (viewGuid && root.findByGuid(viewGuid)) ||
+          (viewRole && root.search({ type: 'geometry', role: viewRole })[0]) ||
+          root.getDefaultGeometry();
+        viewerRef.current
+          ?.loadDocumentNode(doc, geometry)
+          .then(() => setModelLoaded(true))
+          .catch((loadError) => {
+            console.error('Error loading document node:', loadError);
+            setError('Failed to load document geometry.');
+          })
+          .finally(() => setLoading(false));
       } catch (loadError) {
         console.error('Error loading document node:', loadError);
         setError('Failed to load document geometry.');
-      } finally {
         setLoading(false);
       }
     };
@@ -168,7 +240,60 @@ export function Viewer({ versionId }: ViewerProps) {
 
     // Start loading the document using Autodesk's API
     window.Autodesk.Viewing.Document.load('urn:' + urn, onDocumentLoadSuccess, onDocumentLoadFailure);
-  }, [versionId, scriptsReady]);
+  }, [versionId, viewGuid, viewRole, scriptsReady]);
+
+  // =====================
+  // Effect: Apply the colour theme
+  // =====================
+  // Colours the elements of the theme and ghosts the others by isolating the coloured ones.
+  useEffect(() => {
+    hasThemeRef.current = !!colorTheme;
+    const viewer = viewerRef.current;
+    if (!viewer || !modelLoaded) return;
+
+    try {
+      viewer.clearThemingColors();
+      if (!colorTheme) {
+        viewer.isolate();
+        return;
+      }
+
+      // Elements sharing a colour share its vector
+      const vectors = new Map<string, ThemingColor>();
+      colorTheme.colors.forEach((color, objectId) => {
+        if (!vectors.has(color)) vectors.set(color, toThemingColor(color));
+        viewer.setThemingColor(objectId, vectors.get(color)!, undefined, true);
+      });
+      viewer.isolate([...colorTheme.colors.keys()]);
+    } catch (err) {
+      console.error('Failed to apply the colors in the viewer:', err);
+    }
+  }, [colorTheme, modelLoaded]);
+
+  // =====================
+  // Effect: Sync the selection into the viewer
+  // =====================
+  // Isolates and focuses the element selected in the tree, list or table once the model is loaded.
+  // Elements clicked in the viewer are already selected there, so the camera is left in place.
+  // While a colour theme is applied, the selection is focused without hiding the theme.
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !modelLoaded) return;
+
+    try {
+      if (selectedObjectId === null || selectedObjectId === undefined) {
+        if (!hasThemeRef.current) viewer.isolate();
+        viewer.clearSelection();
+      } else if (selectedObjectId !== viewerSelectionRef.current) {
+        viewerSelectionRef.current = selectedObjectId;
+        if (!hasThemeRef.current) viewer.isolate([selectedObjectId]);
+        viewer.fitToView([selectedObjectId]);
+        viewer.select([selectedObjectId]);
+      }
+    } catch (err) {
+      console.error('Failed to select the element in the viewer:', err);
+    }
+  }, [selectedObjectId, modelLoaded]);
 
   // =====================
   // Effect: Cleanup on Component Unmount
@@ -201,7 +326,7 @@ export function Viewer({ versionId }: ViewerProps) {
           id="autodesk-viewer-script"
           src="https://developer.api.autodesk.com/modelderivative/v2/viewers/7.*/viewer3D.js"
           strategy="lazyOnload"
-          onLoad={handleScriptsLoaded}
+          onReady={handleScriptsLoaded}
           onError={handleScriptError}
         />
 
@@ -257,7 +382,12 @@ declare global {
           ) => void;
         };
         GuiViewer3D: new (container: HTMLElement, config?: unknown) => Viewer3D;
+        SELECTION_CHANGED_EVENT: string;
       };
     };
+    // three.js, bundled with the viewer script
+    THREE: {
+      Vector4: new (x: number, y: number, z: number, w: number) => ThemingColor;
+    };
   }
 }
@@ -1,44 +1,54 @@
 // app/components/objectsTree.tsx
-import { ObjectTreeData } from "@/types";
+import { ElementDiff, ObjectTreeData } from "@/types";
 import { ChevronDown, ChevronRight } from "lucide-react";
 import React, { useMemo } from "react";
 
 interface TreeProps {
     data: ObjectTreeData[];
-    searchQuery?: string;
+    filter?: (node: ObjectTreeData) => boolean;
+    highlightTerms?: string[];
+    changes?: Map<number, ElementDiff>;
     level?: number;
     onSelect?: (objectId: number) => void;
     expandAll?: boolean;
+    selectedId?: number | null;
 }
 
+// Shared empty list so the default highlightTerms prop keeps a stable identity.
+const NO_TERMS: string[] = [];
+
 /**
  * Tree Component renders a list of tree nodes.
- * It filters nodes based on the search query and passes selection events up.
+ * It filters nodes with the given filter predicate and passes selection events up.
  */
-const Tree: React.FC<TreeProps> = ({ data, searchQuery = "", level = 1, onSelect, expandAll = false }) => {
-    // Filter data based on search query.
-    // If a search query exists, include nodes that match by name or object ID,
-    // or if any of their children match.
-    const filteredData = useMemo(() => {
-        if (!searchQuery) return data;
-
-        // Helper function to check if a node or any of its children match the search query.
+const Tree: React.FC<TreeProps> = ({ data, filter, highlightTerms = NO_TERMS, changes, level = 1, onSelect, expandAll = false, selectedId = null }) => {
+    // Filter data based on the filter predicate.
+    // The filter is only evaluated on elements, the leaves of the tree, so negated queries and
+    // missing parameter filters do not keep groups on their own. A category, family or type
+    // group is kept if its name contains a search term, or if one of its descendants matches.
+    const { filteredData, nameMatches } = useMemo(() => {
+        const nameMatches = new Set<number>();
+        if (!filter) return { filteredData: data, nameMatches };
+
+        // Helper function to check if a group's own name contains one of the search terms.
+        const nameMatchesTerms = (node: ObjectTreeData): boolean =>
+            highlightTerms.some((term) => term && node.name.toLowerCase().includes(term.toLowerCase()));
+
+        // Helper function to check if a leaf matches the filter, or a group matches by name or holds a matching leaf.
         const nodeMatches = (node: ObjectTreeData): boolean => {
-            const nameMatch = node.name.toLowerCase().includes(searchQuery.toLowerCase());
-            const idMatch = node.objectid.toString().includes(searchQuery);
-
-            if (nameMatch || idMatch) return true;
-
-            // If node has children, check recursively if any child matches.
             if (node.objects && node.objects.length > 0) {
+                if (nameMatchesTerms(node)) {
+                    nameMatches.add(node.objectid);
+                    return true;
+                }
                 return node.objects.some((child) => nodeMatches(child as ObjectTreeData));
             }
 
-            return false;
+            return filter(node);
         };
 
-        return data.filter(nodeMatches);
-    }, [data, searchQuery]);
+        return { filteredData: data.filter(nodeMatches), nameMatches };
+    }, [data, filter, highlightTerms]);
 
     return (
         <ul>
@@ -46,10 +56,14 @@ const Tree: React.FC<TreeProps> = ({ data, searchQuery = "", level = 1, onSelect
                 <TreeNodeItem
                     key={node.objectid}
                     node={node}
-                    searchQuery={searchQuery}
+                    // A group found by its name shows every element it holds.
+                    filter={nameMatches.has(node.objectid) ? undefined : filter}
+                    highlightTerms={highlightTerms}
+                    changes={changes}
                     level={level}
                     onSelect={onSelect} // Pass onSelect callback to each node item
                     expandAll={expandAll}
+                    selectedId={selectedId}
                 />
             ))}
         </ul>
@@ -58,21 +72,41 @@ const Tree: React.FC<TreeProps> = ({ data, searchQuery = "", level = 1, onSelect
 
 interface TreeNodeItemProps {
     node: ObjectTreeData;
-    searchQuery: string;
+    filter?: (node: ObjectTreeData) => boolean;
+    highlightTerms: string[];
+    changes?: Map<number, ElementDiff>;
     level: number;
     onSelect?: (objectId: number) => void;
     expandAll?: boolean;
+    selectedId: number | null;
 }
 
+/**
+ * containsObject - Tells whether a node's descendants include the given object.
+ */
+const containsObject = (node: ObjectTreeData, objectId: number): boolean => {
+    return !!node.objects?.some((child) => child.objectid === objectId || containsObject(child, objectId));
+};
+
 /**
  * TreeNodeItem renders an individual tree node.
  * It handles expanding/collapsing of nodes with children,
- * highlights search query matches in the node name,
- * and calls onSelect when a leaf node is clicked.
+ * highlights search term matches in the node name, marks elements changed in a version comparison,
+ * and calls onSelect when a leaf node is clicked. The selected element, e.g. one clicked in the
+ * model viewer, is highlighted, revealed by expanding its ancestors, and scrolled into view.
  */
-const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, searchQuery, level, onSelect, expandAll = false }) => {
+// Text colour and marker of elements changed since the compared version.
+const CHANGE_STYLES: Record<ElementDiff["status"], { className: string; marker: string }> = {
+    added: { className: "text-green-700 dark:text-green-400", marker: "+" },
+    modified: { className: "text-amber-700 dark:text-amber-400", marker: "~" },
+    removed: { className: "text-red-700 dark:text-red-400", marker: "-" },
+};
+
+const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, filter, highlightTerms, changes, level, onSelect, expandAll = false, selectedId }) => {
     // Check if node has children.
     const hasChildren = node.objects && node.objects.length > 0;
+    // Look up the change of this node in the active version comparison, if any.
+    const change = changes?.get(node.objectid);
 
     // Initialize the expanded state.
     // Expanded by default at level 1.
@@ -85,21 +119,32 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, searchQuery, level, o
         }
     }, [expandAll]);
 
+    // Expand the ancestors of the selected element and scroll the element into view.
+    const isSelected = selectedId === node.objectid;
+    const containsSelected = useMemo(() => selectedId !== null && !!hasChildren && containsObject(node, selectedId), [node, hasChildren, selectedId]);
+    const rowRef = React.useRef<HTMLDivElement>(null);
+    React.useEffect(() => {
+        if (containsSelected) setExpanded(true);
+    }, [containsSelected]);
+    React.useEffect(() => {
+        if (isSelected) rowRef.current?.scrollIntoView({ block: "nearest" });
+    }, [isSelected]);
+
     /**
-     * highlightMatch - Highlights the part of the text that matches the search query.
+     * highlightMatch - Highlights the first part of the text that matches one of the search terms.
      * If no match is found, returns the original text.
      */
     const highlightMatch = (text: string) => {
-        if (!searchQuery) return text;
+        const term = highlightTerms.find((candidate) => candidate && text.toLowerCase().includes(candidate.toLowerCase()));
+        if (!term) return text;
 
-        const index = text.toLowerCase().indexOf(searchQuery.toLowerCase());
-        if (index === -1) return text;
+        const index = text.toLowerCase().indexOf(term.toLowerCase());
 
         return (
             <>
                 {text.substring(0, index)}
-                <span className="bg-yellow-200 dark:bg-yellow-700">{text.substring(index, index + searchQuery.length)}</span>
-                {text.substring(index + searchQuery.length)}
+                <span className="bg-yellow-200 dark:bg-yellow-700">{text.substring(index, index + term.length)}</span>
+                {text.substring(index + term.length)}
             </>
         );
     };
@@ -131,15 +176,18 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, searchQuery, level, o
     return (
         <li className={hasChildren ? "pl-3" : "pl-4"}>
             <div
+                ref={rowRef}
                 onClick={handleClick}
                 className={`flex items-center cursor-${hasChildren ? "pointer" : "default"} hover:bg-gray-100 dark:hover:bg-slate-700 p-1 rounded ${
                     !hasChildren ? "pl-2 ml-4 border-l-2 border-gray-300 dark:border-gray-600 rounded-none" : ""
-                }`}
+                } ${isSelected ? "bg-blue-100 dark:bg-slate-600" : ""}`}
             >
                 {/* Render collapse/expand icon for nodes with children */}
                 {hasChildren && <span className="mr-1 text-gray-500">{expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}</span>}
+                {/* Mark nodes changed since the compared version */}
+                {change && <span className={`mr-1 font-mono font-bold ${CHANGE_STYLES[change.status].className}`}>{CHANGE_STYLES[change.status].marker}</span>}
                 {/* Display node name with highlighted search query if applicable */}
-                <span className="text-gray-800 dark:text-gray-200">{highlightMatch(node.name)}</span>
+                <span className={change ? CHANGE_STYLES[change.status].className : "text-gray-800 dark:text-gray-200"}>{highlightMatch(node.name)}</span>
                 {/* Display node's object ID */}
                 <span className="text-gray-500 dark:text-gray-400 text-sm ml-2">[{node.objectid}]</span>
             </div>
@@ -147,10 +195,13 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, searchQuery, level, o
             {hasChildren && expanded && (
                 <Tree
                     data={node.objects!}
-                    searchQuery={searchQuery}
+                    filter={filter}
+                    highlightTerms={highlightTerms}
+                    changes={changes}
                     level={level + 1}
                     onSelect={onSelect} // Pass the onSelect callback to child nodes
                     expandAll={expandAll}
+                    selectedId={selectedId}
                 />
             )}
         </li>
@@ -0,0 +1,194 @@
+// app/components/parameterCatalog.tsx
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { buildParameterCatalog, ParameterFilter, ParameterStats } from "@/lib/catalog";
+import { ElementClassification } from "@/lib/facets";
+import { getPropertyColumnKey } from "@/lib/properties";
+
+interface ParameterCatalogProps {
+    data: PropertiesDataCollection[];
+    classifications: Map<number, ElementClassification>;
+    activeFilter: ParameterFilter | null;
+    onFilter: (filter: ParameterFilter) => void;
+}
+
+type CatalogSortKey = "parameter" | "count" | "blank" | "missing" | "fillRate" | "distinct";
+
+interface CatalogRow extends ParameterStats {
+    missing: number;
+    fillRate: number;
+}
+
+// Column headers of the catalog, in display order.
+const CATALOG_COLUMNS: { key: CatalogSortKey; label: string; title: string }[] = [
+    { key: "count", label: "Elements", title: "Elements that have the parameter" },
+    { key: "blank", label: "Blank", title: "Elements that have the parameter without a value" },
+    { key: "missing", label: "Missing", title: "Elements that do not have the parameter" },
+    { key: "fillRate", label: "Filled", title: "Share of elements with a value for the parameter" },
+    { key: "distinct", label: "Distinct", title: "Number of distinct values" },
+];
+
+/**
+ * ParameterCatalog Component
+ * Lists every parameter of the elements in view with its fill-rate statistics, optionally scoped
+ * to a single Revit category. Clicking a row shows the elements that have a value for the
+ * parameter in the tree; the Missing link shows the elements without one.
+ */
+const ParameterCatalog: React.FC<ParameterCatalogProps> = ({ data, classifications, activeFilter, onFilter }) => {
+    const [scope, setScope] = useState("");
+    const [sortKey, setSortKey] = useState<CatalogSortKey>("parameter");
+    const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
+
+    // Revit categories offered as scopes, taken from the elements in view.
+    const categories = useMemo(() => {
+        const values = new Set<string>();
+        data.forEach((item) => {
+            const category = classifications.get(item.objectid)?.category;
+            if (category) values.add(category);
+        });
+        return [...values].sort((a, b) => a.localeCompare(b));
+    }, [data, classifications]);
+
+    // Statistics over the elements of the selected category, or all elements in view.
+    const rows = useMemo<CatalogRow[]>(() => {
+        const scoped = scope ? data.filter((item) => classifications.get(item.objectid)?.category === scope) : data;
+        return buildParameterCatalog(scoped, classifications).map((stats) => ({
+            ...stats,
+            missing: scoped.length - stats.count,
+            fillRate: scoped.length > 0 ? (stats.count - stats.blank) / scoped.length : 0,
+        }));
+    }, [data, classifications, scope]);
+
+    const sortedRows = useMemo(() => {
+        const direction = sortDirection === "asc" ? 1 : -1;
+        return [...rows].sort((a, b) => {
+            if (sortKey === "parameter") {
+                return direction * (a.category.localeCompare(b.category) || a.property.localeCompare(b.property));
+            }
+            return direction * (a[sortKey] - b[sortKey]);
+        });
+    }, [rows, sortKey, sortDirection]);
+
+    /**
+     * handleSort - Sorts by the clicked column, toggling the direction when it is already active.
+     */
+    const handleSort = (key: CatalogSortKey) => {
+        if (sortKey === key) {
+            setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+        } else {
+            setSortKey(key);
+            setSortDirection(key === "parameter" ? "asc" : "desc");
+        }
+    };
+
+    const renderSortIcon = (key: CatalogSortKey) => {
+        if (sortKey !== key) return null;
+        return sortDirection === "asc" ? <ArrowUp className="h-3 w-3 shrink-0" /> : <ArrowDown className="h-3 w-3 shrink-0" />;
+    };
+
+    const activeKey = activeFilter ? getPropertyColumnKey(activeFilter.column) : null;
+    const headerClassName = "px-2 py-1 text-left font-semibold border-b border-r dark:border-slate-600 bg-gray-100 dark:bg-slate-700 dark:text-white select-none cursor-pointer";
+    const cellClassName = "px-2 py-1 border-b border-r dark:border-slate-700";
+
+    return (
+        <div className="w-full h-full flex flex-col">
+            {/* Toolbar */}
+            <div className="flex items-center justify-between gap-4 p-2 border-b dark:border-slate-700">
+                <span className="text-sm text-gray-500 dark:text-gray-400">{rows.length} parameters</span>
+                <select
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value)}
+                    className="px-2 py-1 border rounded text-sm w-64 dark:bg-slate-800 dark:text-white dark:border-slate-600"
+                >
+                    <option value="">All categories</option>
+                    {categories.map((category) => (
+                        <option key={category} value={category}>
+                            {category}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Catalog table */}
+            <div className="flex-1 overflow-auto">
+                <table className="w-full border-collapse text-sm">
+                    <thead className="sticky top-0 z-10">
+                        <tr>
+                            <th className={headerClassName} onClick={() => handleSort("parameter")}>
+                                <div className="flex items-center gap-1">
+                                    Parameter
+                                    {renderSortIcon("parameter")}
+                                </div>
+                            </th>
+                            <th className={`${headerClassName} cursor-default`}>Categories</th>
+                            {CATALOG_COLUMNS.map(({ key, label, title }) => (
+                                <th key={key} title={title} className={`${headerClassName} w-24`} onClick={() => handleSort(key)}>
+                                    <div className="flex items-center gap-1">
+                                        {label}
+                                        {renderSortIcon(key)}
+                                    </div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedRows.map((row) => {
+                            const key = getPropertyColumnKey(row);
+                            const column = { category: row.category, property: row.property };
+                            const categoryList = row.revitCategories.join(", ");
+                            return (
+                                <tr
+                                    key={key}
+                                    onClick={() => onFilter({ column, mode: "has" })}
+                                    title="Show the elements with a value for this parameter"
+                                    className={`cursor-pointer hover:bg-gray-100 dark:hover:bg-slate-700 dark:text-white ${
+                                        activeKey === key ? "bg-blue-50 dark:bg-slate-600" : ""
+                                    }`}
+                                >
+                                    <td className={cellClassName}>
+                                        <span className="block">{row.property}</span>
+                                        <span className="block text-xs text-gray-500 dark:text-gray-400">{row.category}</span>
+                                    </td>
+                                    <td title={categoryList} className={`${cellClassName} max-w-xs truncate`}>
+                                        {categoryList}
+                                    </td>
+                                    <td className={cellClassName}>{row.count}</td>
+                                    <td className={cellClassName}>{row.blank}</td>
+                                    <td className={cellClassName}>
+                                        {row.blank + row.missing > 0 ? (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onFilter({ column, mode: "missing" });
+                                                }}
+                                                title="Show the elements without a value for this parameter"
+                                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                                            >
+                                                {row.missing}
+                                            </button>
+                                        ) : (
+                                            row.missing
+                                        )}
+                                    </td>
+                                    <td className={cellClassName}>
+                                        <div className="flex items-center gap-2">
+                                            <div className="flex-1 h-1.5 rounded bg-gray-200 dark:bg-slate-600">
+                                                <div className="h-full rounded bg-blue-500" style={{ width: `${Math.round(row.fillRate * 100)}%` }} />
+                                            </div>
+                                            <span className="w-9 text-right text-xs">{Math.round(row.fillRate * 100)}%</span>
+                                        </div>
+                                    </td>
+                                    <td className={cellClassName}>{row.distinct}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                {rows.length === 0 && <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No parameters found</p>}
+            </div>
+        </div>
+    );
+};
+
+export default ParameterCatalog;
@@ -1,32 +1,343 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { ChevronRight, ChevronDown, Loader2, FolderClosed, FolderOpen, File, Clock, Eye, Box } from "lucide-react";
-import { FolderContent, Hub, Project, Version, View } from "@/types";
+import { ChevronRight, ChevronDown, Loader2, FolderClosed, FolderOpen, File, Clock, Eye, Box, GitCompare, AlertTriangle, Play, FileSearch, FileText, Layers, Star, History, Search, X } from "lucide-react";
+import { addRecentView, Bookmark, getBookmarkStorageKey, loadBookmarks, saveBookmarks, toggleFavourite } from "@/lib/client/bookmarks";
+import { FolderContent, Hub, ManifestMessage, ManifestSummary, Project, ProjectSearch, SearchResult, TreeLocation, Version, VersionMetadata, View } from "@/types";
+import { FAILED_MANIFEST_STATUSES, PENDING_MANIFEST_STATUSES } from "@/lib/manifest";
+import { DEFAULT_REGION, getDerivativeRegion } from "@/lib/regions";
 
 interface TreeNode {
   id: string;
   name: string;
-  type: "hub" | "project" | "folder" | "item" | "version" | "view" | "error";
+  type: "hub" | "project" | "folder" | "item" | "version" | "group" | "view" | "error" | "warning" | "translate" | "translating";
   children?: TreeNode[];
   isOpen?: boolean;
   isLoading?: boolean;
   parent?: string;
+  // For view nodes: "3d" for model views, "2d" for sheets and 2D views.
+  role?: string;
+  // For translate nodes: whether existing derivatives must be replaced.
+  force?: boolean;
+  // For versions: their details; for items: the details of their latest version.
+  metadata?: VersionMetadata;
+  // Model Derivative region of the node's hub, inherited by its descendants.
+  region?: string;
 }
 
+// Node types without children, which are not toggled.
+const LEAF_NODE_TYPES: TreeNode["type"][] = ["view", "error", "warning", "translate", "translating"];
+
+// Node types that can be added to the favourites.
+const BOOKMARK_NODE_TYPES: TreeNode["type"][] = ["item", "version", "view"];
+
+// localStorage key of the preference to list Revit files only.
+const REVIT_ONLY_KEY = "preferredRevitOnly";
+
+// Interval between two translation status checks, in milliseconds.
+const TRANSLATION_POLL_INTERVAL = 3000;
+
+/**
+ * updateNode - Recursively updates a node by its ID with the provided updates.
+ * @param nodes - The array of nodes to search.
+ * @param id - The ID of the node to update.
+ * @param updates - Partial updates to merge into the node.
+ * @returns Updated array of nodes.
+ */
+const updateNode = (nodes: TreeNode[], id: string, updates: Partial<TreeNode>): TreeNode[] => {
+  return nodes.map((node) => {
+    if (node.id === id) {
+      return { ...node, ...updates };
+    } else if (node.children) {
+      return { ...node, children: updateNode(node.children, id, updates) };
+    }
+    return node;
+  });
+};
+
+/**
+ * inheritRegion - Recursively sets the region of nodes and their descendants to the region of their hub.
+ * @param nodes - The nodes loaded under a hub.
+ * @param region - The Model Derivative region of the hub.
+ * @returns The nodes with their region.
+ */
+const inheritRegion = (nodes: TreeNode[], region: string): TreeNode[] => {
+  return nodes.map((node) => ({ ...node, region, children: node.children && inheritRegion(node.children, region) }));
+};
+
+/**
+ * findNode - Recursively searches for a node by its ID.
+ * @param nodes - Array of TreeNode to search.
+ * @param id - The node ID to find.
+ * @returns The found TreeNode or undefined.
+ */
+const findNode = (nodes: TreeNode[], id: string): TreeNode | undefined => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    if (node.children) {
+      const found = findNode(node.children, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * formatFileSize - Formats a size in bytes with the largest fitting unit, e.g. "12.4 MB".
+ */
+const formatFileSize = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * getMetadataSummary - Returns the secondary text of an item or version: the latest version
+ * and size of an item, or the date and author of a version.
+ * @param node - The node to describe.
+ * @returns The text, or an empty string for nodes without metadata.
+ */
+const getMetadataSummary = (node: TreeNode): string => {
+  const { metadata } = node;
+  if (!metadata) return "";
+  if (node.type === "item") {
+    return [`V${metadata.versionNumber}`, metadata.storageSize !== undefined ? formatFileSize(metadata.storageSize) : ""].filter(Boolean).join(" · ");
+  }
+  return [new Date(metadata.lastModifiedTime).toLocaleDateString(), metadata.lastModifiedUserName].filter(Boolean).join(" · ");
+};
+
+/**
+ * getNodeTooltip - Returns the tooltip of a node: its name, followed by the details of the
+ * version for items and versions.
+ * @param node - The node to describe.
+ * @returns The tooltip, one detail per line.
+ */
+const getNodeTooltip = (node: TreeNode): string => {
+  const { metadata } = node;
+  if (!metadata) return node.name;
+  return [
+    node.name,
+    `${node.type === "item" ? "Latest version" : "Version"}: V${metadata.versionNumber}`,
+    `File type: ${metadata.fileType || "unknown"}`,
+    metadata.storageSize !== undefined ? `Size: ${formatFileSize(metadata.storageSize)}` : "",
+    `Last modified: ${new Date(metadata.lastModifiedTime).toLocaleString()} by ${metadata.lastModifiedUserName}`,
+    metadata.description ? `Description: ${metadata.description}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+/**
+ * isRevitFile - Tells whether an item is a Revit model, from its latest version or its name.
+ */
+const isRevitFile = (node: TreeNode): boolean => {
+  return node.metadata ? node.metadata.fileType === "rvt" : node.name.toLowerCase().endsWith(".rvt");
+};
+
+// Group names of the view roles, in display order.
+const VIEW_ROLE_GROUPS: { role: string; name: string }[] = [
+  { role: "3d", name: "3D Views" },
+  { role: "2d", name: "Sheets and 2D Views" },
+];
+
+/**
+ * findPath - Recursively searches for a node by its ID and returns it with its ancestors.
+ * @param nodes - Array of TreeNode to search.
+ * @param id - The node ID to find.
+ * @returns The nodes from the root down to the found node, or an empty array.
+ */
+const findPath = (nodes: TreeNode[], id: string): TreeNode[] => {
+  for (const node of nodes) {
+    if (node.id === id) return [node];
+    if (node.children) {
+      const path = findPath(node.children, id);
+      if (path.length > 0) return [node, ...path];
+    }
+  }
+  return [];
+};
+
+/**
+ * getTreeLocation - Reads the location of a version from the IDs of its ancestors.
+ * @param path - The nodes from the hub down to the version or one of its views.
+ * @returns The location, or null if the path does not lead to a version.
+ */
+const getTreeLocation = (path: TreeNode[]): TreeLocation | null => {
+  const location: Partial<TreeLocation> = { folderIds: [] };
+  path.forEach((node) => {
+    const parts = node.id.split("|");
+    if (node.type === "hub") location.hubId = parts[1];
+    else if (node.type === "project") location.projectId = parts[2];
+    else if (node.type === "folder") location.folderIds!.push(parts[3]);
+    else if (node.type === "item") location.itemId = parts[3];
+    else if (node.type === "version") location.versionId = parts[1];
+  });
+  const { hubId, projectId, folderIds, itemId, versionId } = location;
+  return hubId && projectId && itemId && versionId ? { hubId, projectId, folderIds: folderIds!, itemId, versionId } : null;
+};
+
+/**
+ * getLocationNodeIds - Lists the IDs of the nodes to expand to reveal a version, from its hub down.
+ * @param location - The location of the version.
+ * @returns The node IDs, as built when the nodes are fetched.
+ */
+const getLocationNodeIds = ({ hubId, projectId, folderIds, itemId, versionId }: TreeLocation): string[] => {
+  return [
+    `hub|${hubId}`,
+    `project|${hubId}|${projectId}`,
+    ...folderIds.map((folderId) => `folder|${hubId}|${projectId}|${folderId}`),
+    `item|${hubId}|${projectId}|${itemId}`,
+    `version|${versionId}`,
+  ];
+};
+
+/**
+ * toViewNodes - Groups the views of a version by role, each group sorted by name.
+ * The 3D views are expanded, as they hold the model elements; sheets are collapsed.
+ * @param version - The version ID the views belong to.
+ * @param views - The views returned by the views route.
+ * @returns The group nodes, without empty groups.
+ */
+const toViewNodes = (version: string, views: View[]): TreeNode[] => {
+  return VIEW_ROLE_GROUPS.map(({ role, name }) => {
+    const children = views
+      .filter((view) => view.role === role)
+      .map((view) => ({
+        // View GUIDs repeat across the versions of a model, so the ID includes the version.
+        id: `view|${version}|${view.guid}`,
+        name: view.name,
+        type: "view" as const,
+        parent: view.urn,
+        role: view.role,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { id: `group|${version}|${role}`, name: `${name} (${children.length})`, type: "group" as const, isOpen: role === "3d", children };
+  }).filter((group) => group.children.length > 0);
+};
+
+/**
+ * toMessageNodes - Maps the errors and warnings of a derivative manifest to tree nodes.
+ * @param version - The version ID the messages belong to.
+ * @param messages - The manifest messages; information messages are left out.
+ * @returns The message nodes.
+ */
+const toMessageNodes = (version: string, messages: ManifestMessage[]): TreeNode[] => {
+  return messages
+    .filter((message) => message.type === "error" || message.type === "warning")
+    .map((message, index) => ({
+      id: `${message.type}|${version}|${index}`,
+      name: message.message || message.code,
+      type: message.type as "error" | "warning",
+    }));
+};
+
+/**
+ * getTranslationNodes - Builds the children of a version without views from its translation status:
+ * the progress of a running translation, or an action to translate the version, along with the
+ * errors and warnings reported by the derivative service.
+ * @param version - The version ID.
+ * @param summary - The translation status of the version.
+ * @returns The child nodes of the version.
+ */
+const getTranslationNodes = (version: string, summary: ManifestSummary): TreeNode[] => {
+  const messageNodes = toMessageNodes(version, summary.messages);
+
+  if (PENDING_MANIFEST_STATUSES.includes(summary.status)) {
+    return [{ id: `translating|${version}`, name: `Translating... ${summary.progress}%`, type: "translating" }, ...messageNodes];
+  }
+
+  const failed = FAILED_MANIFEST_STATUSES.includes(summary.status);
+  const statusNode: TreeNode = { id: `error|${version}`, name: failed ? "Error: Translation failed" : "Error: No views found", type: "error" };
+  return [
+    statusNode,
+    ...messageNodes,
+    {
+      id: `translate|${version}`,
+      name: summary.status === "none" ? "Translate this version" : "Translate again",
+      type: "translate",
+      // Derivatives that exist without views, or failed ones, are only replaced when forced.
+      force: summary.status !== "none",
+    },
+  ];
+};
+
 interface SidebarProps {
-  region: string;
-  onViewSelected: (type: string, viewGuid: string, itemUrn: string) => void;
+  // Region picked in the header, used instead of the regions of the hubs.
+  regionOverride?: string | null;
+  onViewSelected: (role: string, viewGuid: string, itemUrn: string, location: TreeLocation | null, region: string) => void;
+  onCompareVersion?: (versionUrn: string) => void;
+  onInspectVersion?: (versionUrn: string, versionName: string, region: string) => void;
+  // Version and GUID of the open view, which is highlighted.
+  selectedVersion?: string | null;
+  selectedViewGuid?: string | null;
+  // Version to reveal once the hubs are loaded, e.g. when opening a shared link.
+  initialLocation?: TreeLocation | null;
+  // Identifies the signed-in user, whose recent and favourite models are stored separately.
+  userKey?: string | null;
 }
 
 /**
  * Sidebar Component renders a hierarchical tree of hubs, projects, folders, items, versions, and views.
  * It fetches initial hubs on mount and loads children nodes dynamically when toggled.
  */
-export function Sidebar({ region, onViewSelected }: SidebarProps) {
+export function Sidebar({ regionOverride, onViewSelected, onCompareVersion, onInspectVersion, selectedVersion, selectedViewGuid, initialLocation, userKey }: SidebarProps) {
   const [tree, setTree] = useState<TreeNode[]>([]);
   const [loading, setLoading] = useState(true);
+  // Versions whose translation is being followed, so each is polled only once.
+  const trackedTranslations = useRef(new Set<string>());
+  const isMounted = useRef(true);
+  // Set once the initial location has been revealed, so it is only expanded once.
+  const hasRevealedLocation = useRef(false);
+  // Recently opened views, most recent first, and the user's favourite items, versions and views.
+  const [recentViews, setRecentViews] = useState<Bookmark[]>([]);
+  const [favourites, setFavourites] = useState<Bookmark[]>([]);
+  // Whether items other than Revit models are hidden.
+  const [showRevitOnly, setShowRevitOnly] = useState(false);
+  // Project searched for files, with the search and its results.
+  const [searchProject, setSearchProject] = useState<TreeNode | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchExtensions, setSearchExtensions] = useState("");
+  const [searchResults, setSearchResults] = useState<ProjectSearch | null>(null);
+  const [isSearching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // ID of the open view's node, highlighted in the tree and in the recent and favourite models.
+  const selectedViewNodeId = `view|${selectedVersion}|${selectedViewGuid}`;
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  /**
+   * Restore the preference to list Revit files only (client-only).
+   */
+  useEffect(() => {
+    setShowRevitOnly(localStorage.getItem(REVIT_ONLY_KEY) === "true");
+  }, []);
+
+  /**
+   * handleRevitOnlyChange - Shows or hides the items other than Revit models, and persists the preference.
+   */
+  const handleRevitOnlyChange = (revitOnly: boolean) => {
+    setShowRevitOnly(revitOnly);
+    localStorage.setItem(REVIT_ONLY_KEY, String(revitOnly));
+  };
+
+  /**
+   * Load the recent and favourite models of the signed-in user.
+   */
+  useEffect(() => {
+    setRecentViews(userKey ? loadBookmarks(getBookmarkStorageKey("recentViews", userKey)) : []);
+    setFavourites(userKey ? loadBookmarks(getBookmarkStorageKey("favourites", userKey)) : []);
+  }, [userKey]);
 
   /**
    * sortNodesByName - Sorts tree nodes alphabetically by their name.
@@ -55,6 +366,7 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
             type: "hub" as const,
             isOpen: false,
             children: [],
+            region: getDerivativeRegion(hub.region),
           }))
         );
 
@@ -70,45 +382,123 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
   }, []);
 
   /**
-   * toggleNode - Handles node toggling to expand/collapse or fetch children if not yet loaded.
-   * @param nodeId - The unique ID of the node to toggle.
+   * loadChildren - Fetches the children of a node from the API.
+   * @param nodeId - The unique ID of the node, which encodes the IDs needed to fetch its children.
+   * @param hubRegion - The Model Derivative region of the node's hub, where its views are read unless overridden.
+   * @returns The child nodes, sorted by name.
    */
-  const toggleNode = async (nodeId: string) => {
-    /**
-     * updateNode - Recursively updates a node by its ID with the provided updates.
-     * @param nodes - The array of nodes to search.
-     * @param id - The ID of the node to update.
-     * @param updates - Partial updates to merge into the node.
-     * @returns Updated array of nodes.
-     */
-    const updateNode = (nodes: TreeNode[], id: string, updates: Partial<TreeNode>): TreeNode[] => {
-      return nodes.map((node) => {
-        if (node.id === id) {
-          return { ...node, ...updates };
-        } else if (node.children) {
-          return { ...node, children: updateNode(node.children, id, updates) };
-        }
-        return node;
-      });
-    };
+  const loadChildren = async (nodeId: string, hubRegion: string): Promise<TreeNode[]> => {
+    const parts = nodeId.split("|");
+    const nodeType = parts[0];
+    let children: TreeNode[] = [];
 
-    /**
-     * findNode - Recursively searches for a node by its ID.
-     * @param nodes - Array of TreeNode to search.
-     * @param id - The node ID to find.
-     * @returns The found TreeNode or undefined.
-     */
-    const findNode = (nodes: TreeNode[], id: string): TreeNode | undefined => {
-      for (const node of nodes) {
-        if (node.id === id) return node;
-        if (node.children) {
-          const found = findNode(node.children, id);
-          if (found) return found;
+    switch (nodeType) {
+      case "hub": {
+        const hubId = parts[1];
+        const res = await fetch(`/api/hubs/${hubId}/projects`);
+        if (!res.ok) throw new Error("Failed to fetch projects");
+
+        const projects = await res.json();
+        children = projects.map((project: Project) => ({
+          id: `project|${hubId}|${project.id}`,
+          name: project.name,
+          type: "project" as const,
+          isOpen: false,
+          children: [],
+        }));
+        children = sortNodesByName(children);
+        break;
+      }
+      case "project": {
+        const hubId = parts[1];
+        const projectId = parts[2];
+        const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/contents`);
+        if (!res.ok) throw new Error("Failed to fetch contents");
+
+        const contents = await res.json();
+        children = contents.map((content: FolderContent) => ({
+          id: content.folder ? `folder|${hubId}|${projectId}|${content.id}` : `item|${hubId}|${projectId}|${content.id}`,
+          name: content.name,
+          type: (content.folder ? "folder" : "item") as "folder" | "item",
+          isOpen: false,
+          children: [],
+          metadata: content.tip,
+        }));
+        children = sortNodesByName(children);
+        break;
+      }
+      case "folder": {
+        const hubId = parts[1];
+        const projectId = parts[2];
+        const folderId = parts[3];
+        const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/contents?folder_id=${folderId}`);
+        if (!res.ok) throw new Error("Failed to fetch folder contents");
+
+        const contents = await res.json();
+        children = contents.map((content: FolderContent) => ({
+          id: content.folder ? `folder|${hubId}|${projectId}|${content.id}` : `item|${hubId}|${projectId}|${content.id}`,
+          name: content.name,
+          type: (content.folder ? "folder" : "item") as "folder" | "item",
+          isOpen: false,
+          children: [],
+          metadata: content.tip,
+        }));
+        children = sortNodesByName(children);
+        break;
+      }
+      case "item": {
+        const hubId = parts[1];
+        const projectId = parts[2];
+        const itemId = parts[3];
+        const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/contents/${itemId}/versions`);
+        if (!res.ok) throw new Error("Failed to fetch versions");
+
+        const versions = await res.json();
+        // Latest versions first.
+        children = versions
+          .map((version: Version) => ({
+            id: `version|${version.id}`,
+            name: version.name,
+            type: "version" as const,
+            metadata: version.metadata,
+          }))
+          .sort((a: TreeNode, b: TreeNode) => b.metadata!.versionNumber - a.metadata!.versionNumber);
+        break;
+      }
+      case "version": {
+        const version = parts[1];
+        const region = regionOverride || hubRegion;
+        // Convert version using base64 and proper encoding for URL
+        const encodedVersion = btoa(version).replace("/", "%2F");
+        const res = await fetch(`/api/modelDerivate/${region}/${encodedVersion}/views`);
+        if (res.status === 404) {
+          // Without views, show whether the version is being translated or why its translation failed.
+          const statusRes = await fetch(`/api/modelDerivate/${region}/${encodedVersion}/translation`);
+          if (!statusRes.ok) throw new Error("Failed to fetch the translation status");
+
+          const summary: ManifestSummary = await statusRes.json();
+          children = getTranslationNodes(version, summary);
+          if (PENDING_MANIFEST_STATUSES.includes(summary.status)) {
+            trackTranslation(version, hubRegion);
+          }
+          break;
         }
+        if (!res.ok) throw new Error("Failed to fetch views");
+
+        const views: View[] = await res.json();
+        children = toViewNodes(version, views);
+        break;
       }
-      return undefined;
-    };
+    }
+
+    return inheritRegion(children, hubRegion);
+  };
 
+  /**
+   * toggleNode - Handles node toggling to expand/collapse or fetch children if not yet loaded.
+   * @param nodeId - The unique ID of the node to toggle.
+   */
+  const toggleNode = async (nodeId: string) => {
     // Find the target node in the tree
     const node = findNode(tree, nodeId);
     if (!node) return;
@@ -125,113 +515,11 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
       setTree(updateNode(tree, nodeId, { isLoading: true }));
 
       try {
-        const parts = nodeId.split("|");
-        const nodeType = parts[0];
-        let children: TreeNode[] = [];
-
-        switch (nodeType) {
-          case "hub": {
-            const hubId = parts[1];
-            const res = await fetch(`/api/hubs/${hubId}/projects`);
-            if (!res.ok) throw new Error("Failed to fetch projects");
-
-            const projects = await res.json();
-            children = projects.map((project: Project) => ({
-              id: `project|${hubId}|${project.id}`,
-              name: project.name,
-              type: "project" as const,
-              isOpen: false,
-              children: [],
-            }));
-            children = sortNodesByName(children);
-            break;
-          }
-          case "project": {
-            const hubId = parts[1];
-            const projectId = parts[2];
-            const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/contents`);
-            if (!res.ok) throw new Error("Failed to fetch contents");
-
-            const contents = await res.json();
-            children = contents.map((content: FolderContent) => ({
-              id: content.folder ? `folder|${hubId}|${projectId}|${content.id}` : `item|${hubId}|${projectId}|${content.id}`,
-              name: content.name,
-              type: (content.folder ? "folder" : "item") as "folder" | "item",
-              isOpen: false,
-              children: [],
-            }));
-            children = sortNodesByName(children);
-            break;
-          }
-          case "folder": {
-            const hubId = parts[1];
-            const projectId = parts[2];
-            const folderId = parts[3];
-            const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/contents?folder_id=${folderId}`);
-            if (!res.ok) throw new Error("Failed to fetch folder contents");
-
-            const contents = await res.json();
-            children = contents.map((content: FolderContent) => ({
-              id: content.folder ? `folder|${hubId}|${projectId}|${content.id}` : `item|${hubId}|${projectId}|${content.id}`,
-              name: content.name,
-              type: (content.folder ? "folder" : "item") as "folder" | "item",
-              isOpen: false,
-              children: [],
-            }));
-            children = sortNodesByName(children);
-            break;
-          }
-          case "item": {
-            const hubId = parts[1];
-            const projectId = parts[2];
-            const itemId = parts[3];
-            const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/contents/${itemId}/versions`);
-            if (!res.ok) throw new Error("Failed to fetch versions");
-
-            const versions = await res.json();
-            children = versions.map((version: Version) => ({
-              id: `version|${version.id}`,
-              name: version.name,
-              type: "version" as const,
-            }));
-            children = sortNodesByName(children);
-            break;
-          }
-          case "version": {
-            const version = parts[1];
-            // Convert version using base64 and proper encoding for URL
-            const encodedVersion = btoa(version).replace("/", "%2F");
-            const res = await fetch(`/api/modelDerivate/${region}/${encodedVersion}/views`);
-            if (!res.ok || res.status === 404) {
-              children = [
-                {
-                  id: "",
-                  name: "Error: No views found",
-                  type: "error" as const,
-                  isOpen: false,
-                },
-              ];
-              break;
-            }
-            if (!res.ok) throw new Error("Failed to fetch views");
-
-            const views = await res.json();
-            children = views
-              .filter((view: View) => view.role === "3d")
-              .map((view: View) => ({
-                id: `view|${view.guid}`,
-                name: view.name,
-                type: "view" as const,
-                parent: view.urn,
-              }));
-            children = sortNodesByName(children);
-            break;
-          }
-        }
+        const children = await loadChildren(nodeId, node.region || DEFAULT_REGION);
 
         // Update the target node with the fetched children, set it to open, and turn off loading indicator
-        setTree(
-          updateNode(tree, nodeId, {
+        setTree((prev) =>
+          updateNode(prev, nodeId, {
             children,
             isOpen: true,
             isLoading: false,
@@ -240,7 +528,7 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
       } catch (error) {
         console.error("Error fetching children:", error);
         // Update node to stop loading even if fetch fails
-        setTree(updateNode(tree, nodeId, { isLoading: false }));
+        setTree((prev) => updateNode(prev, nodeId, { isLoading: false }));
       }
     } else {
       // If children are already loaded, just open the node
@@ -248,17 +536,278 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
     }
   };
 
+  // Latest tree, read by revealNodes to skip the nodes whose children are already loaded
+  const treeRef = useRef(tree);
+  useEffect(() => {
+    treeRef.current = tree;
+  });
+
+  /**
+   * revealNodes - Expands nodes in order, fetching the children of those not loaded yet, and
+   * expands the view group holding a view.
+   * @param nodeIds - The IDs of the nodes to expand, from the hub down.
+   * @param viewNodeId - ID of the view node whose group is expanded.
+   */
+  const revealNodes = async (nodeIds: string[], viewNodeId?: string | null) => {
+    const openViewGroup = (children: TreeNode[]) =>
+      children.map((child) => ({
+        ...child,
+        isOpen: child.isOpen || !!child.children?.some((view) => view.id === viewNodeId),
+      }));
+
+    // Every node on the way belongs to the same hub.
+    const hubRegion = findNode(treeRef.current, nodeIds[0])?.region || DEFAULT_REGION;
+
+    for (const nodeId of nodeIds) {
+      if (findNode(treeRef.current, nodeId)?.children?.length) {
+        setTree((prev) => updateNode(prev, nodeId, { children: openViewGroup(findNode(prev, nodeId)?.children || []), isOpen: true }));
+        continue;
+      }
+
+      setTree((prev) => updateNode(prev, nodeId, { isLoading: true }));
+      try {
+        const children = await loadChildren(nodeId, hubRegion);
+        setTree((prev) => updateNode(prev, nodeId, { children: openViewGroup(children), isOpen: true, isLoading: false }));
+      } catch (error) {
+        // The node may have moved or been deleted; the rest of the tree stays usable.
+        console.error("Error revealing node:", error);
+        setTree((prev) => updateNode(prev, nodeId, { isLoading: false }));
+        return;
+      }
+    }
+  };
+
+  // Latest revealNodes, used by the effect revealing the initial location
+  const revealNodesRef = useRef(revealNodes);
+  useEffect(() => {
+    revealNodesRef.current = revealNodes;
+  });
+
+  /**
+   * Reveal the initial location once the hubs are loaded, expanding every node on the way to
+   * the version and the view group holding the open view.
+   */
+  useEffect(() => {
+    if (loading || !initialLocation || hasRevealedLocation.current) return;
+    hasRevealedLocation.current = true;
+
+    revealNodesRef.current(getLocationNodeIds(initialLocation), `view|${initialLocation.versionId}|${selectedViewGuid}`);
+  }, [loading, initialLocation, selectedViewGuid]);
+
+  /**
+   * trackTranslation - Polls the translation status of a version until the translation ends,
+   * then replaces the version's children with its views, or with the reported errors.
+   * @param version - The version ID.
+   * @param hubRegion - The Model Derivative region of the version's hub.
+   */
+  const trackTranslation = async (version: string, hubRegion: string) => {
+    if (trackedTranslations.current.has(version)) return;
+    trackedTranslations.current.add(version);
+
+    const versionNodeId = `version|${version}`;
+    const encodedVersion = btoa(version).replace("/", "%2F");
+    const region = regionOverride || hubRegion;
+
+    try {
+      while (isMounted.current) {
+        await new Promise((resolve) => setTimeout(resolve, TRANSLATION_POLL_INTERVAL));
+
+        const res = await fetch(`/api/modelDerivate/${region}/${encodedVersion}/translation`);
+        if (!res.ok) throw new Error("Failed to fetch the translation status");
+
+        const summary: ManifestSummary = await res.json();
+        let children = getTranslationNodes(version, summary);
+
+        if (!PENDING_MANIFEST_STATUSES.includes(summary.status)) {
+          // Once translated, the version's views replace the progress.
+          if (summary.status === "success") {
+            const viewsRes = await fetch(`/api/modelDerivate/${region}/${encodedVersion}/views`);
+            if (viewsRes.ok) children = toViewNodes(version, await viewsRes.json());
+          }
+          setTree((prev) => updateNode(prev, versionNodeId, { children: inheritRegion(children, hubRegion) }));
+          return;
+        }
+
+        setTree((prev) => updateNode(prev, versionNodeId, { children: inheritRegion(children, hubRegion) }));
+      }
+    } catch (error) {
+      console.error("Error tracking translation:", error);
+      setTree((prev) =>
+        updateNode(prev, versionNodeId, {
+          children: [
+            { id: `error|${version}`, name: "Error: Failed to follow the translation", type: "error", region: hubRegion },
+            { id: `translate|${version}`, name: "Translate again", type: "translate", force: true, region: hubRegion },
+          ],
+        })
+      );
+    } finally {
+      trackedTranslations.current.delete(version);
+    }
+  };
+
+  /**
+   * translateVersion - Starts translating a version without views, then follows its progress.
+   * @param node - The translate node of the version.
+   */
+  const translateVersion = async (node: TreeNode) => {
+    const version = node.id.split("|")[1];
+    const versionNodeId = `version|${version}`;
+    const encodedVersion = btoa(version).replace("/", "%2F");
+    const hubRegion = node.region || DEFAULT_REGION;
+    const region = regionOverride || hubRegion;
+
+    setTree((prev) =>
+      updateNode(prev, versionNodeId, {
+        children: [{ id: `translating|${version}`, name: "Starting translation...", type: "translating" }],
+      })
+    );
+
+    try {
+      const res = await fetch(`/api/modelDerivate/${region}/${encodedVersion}/translation${node.force ? "?force=true" : ""}`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to start the translation");
+
+      trackTranslation(version, hubRegion);
+    } catch (error) {
+      console.error("Error starting translation:", error);
+      setTree((prev) =>
+        updateNode(prev, versionNodeId, {
+          children: [{ id: `error|${version}`, name: "Error: The translation could not be started", type: "error" }, node],
+        })
+      );
+    }
+  };
+
+  /**
+   * toBookmark - Captures a node of the tree, with its path, for the recent or favourite models.
+   * @param node - An item, version or view node.
+   * @returns The bookmark; view bookmarks hold what is needed to open the view.
+   */
+  const toBookmark = (node: TreeNode): Bookmark => {
+    const path = findPath(tree, node.id);
+    // View groups are rebuilt with the views, so only the nodes fetched from the API are kept.
+    const ancestors = path.slice(0, -1).filter((ancestor) => ancestor.type !== "group");
+    return {
+      nodeId: node.id,
+      type: node.type as Bookmark["type"],
+      name: node.name,
+      path: ancestors.map((ancestor) => ancestor.name),
+      ancestorIds: ancestors.map((ancestor) => ancestor.id),
+      view:
+        node.type === "view"
+          ? {
+              role: node.role || "3d",
+              guid: node.id.split("|")[2],
+              versionUrn: node.parent || "",
+              location: getTreeLocation(path),
+              region: node.region || DEFAULT_REGION,
+            }
+          : undefined,
+    };
+  };
+
+  /**
+   * updateRecentViews - Replaces the recent views and stores them for the signed-in user.
+   */
+  const updateRecentViews = (bookmarks: Bookmark[]) => {
+    setRecentViews(bookmarks);
+    if (userKey) saveBookmarks(getBookmarkStorageKey("recentViews", userKey), bookmarks);
+  };
+
+  /**
+   * updateFavourites - Replaces the favourites and stores them for the signed-in user.
+   */
+  const updateFavourites = (bookmarks: Bookmark[]) => {
+    setFavourites(bookmarks);
+    if (userKey) saveBookmarks(getBookmarkStorageKey("favourites", userKey), bookmarks);
+  };
+
+  /**
+   * openView - Opens a view and records it as the most recent one.
+   * @param bookmark - The view bookmark.
+   */
+  const openView = (bookmark: Bookmark) => {
+    if (!bookmark.view) return;
+    const { role, guid, versionUrn, location, region } = bookmark.view;
+    onViewSelected(role, guid, versionUrn, location, regionOverride || region || DEFAULT_REGION);
+    updateRecentViews(addRecentView(recentViews, bookmark));
+  };
+
+  /**
+   * handleBookmarkClick - Opens a recent or favourite view directly, and reveals the bookmarked
+   * node in the tree; items and versions are expanded to list their versions or views.
+   * @param bookmark - The clicked bookmark.
+   */
+  const handleBookmarkClick = (bookmark: Bookmark) => {
+    if (bookmark.view) {
+      openView(bookmark);
+      revealNodes(bookmark.ancestorIds, bookmark.nodeId);
+    } else {
+      revealNodes([...bookmark.ancestorIds, bookmark.nodeId]);
+    }
+  };
+
+  /**
+   * openSearch - Shows the search box for the files of a project.
+   * @param node - The project node.
+   */
+  const openSearch = (node: TreeNode) => {
+    setSearchProject(node);
+    setSearchResults(null);
+    setSearchError(null);
+  };
+
+  /**
+   * searchFiles - Searches the folders of the selected project for items by name and extension.
+   */
+  const searchFiles = async () => {
+    if (!searchProject) return;
+    const [, hubId, projectId] = searchProject.id.split("|");
+    const params = new URLSearchParams({ q: searchQuery, ext: searchExtensions });
+
+    setSearching(true);
+    setSearchError(null);
+    try {
+      const res = await fetch(`/api/hubs/${hubId}/projects/${projectId}/search?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to search the project");
+      setSearchResults(data);
+    } catch (error) {
+      console.error("Error searching project:", error);
+      setSearchResults(null);
+      setSearchError(error instanceof Error ? error.message : "An unexpected error occurred");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  /**
+   * handleSearchResultClick - Reveals a found item in the tree, expanded to list its versions.
+   * @param result - The clicked search result.
+   */
+  const handleSearchResultClick = (result: SearchResult) => {
+    if (!searchProject) return;
+    const [, hubId, projectId] = searchProject.id.split("|");
+    revealNodes([
+      `hub|${hubId}`,
+      searchProject.id,
+      ...result.folders.map((folder) => `folder|${hubId}|${projectId}|${folder.id}`),
+      `item|${hubId}|${projectId}|${result.itemId}`,
+    ]);
+  };
+
   /**
    * handleNodeClick - Handles clicks on a node.
-   * For view nodes, it triggers the onViewSelected callback.
-   * For all others, it toggles the node (expands/collapses).
+   * For view nodes, it opens the view and records it in the recent views.
+   * For translate nodes, it starts translating the version.
+   * For other leaf nodes it does nothing; all others are toggled (expanded/collapsed).
    * @param node - The clicked TreeNode.
    */
   const handleNodeClick = (node: TreeNode) => {
     if (node.type === "view") {
-      const parts = node.id.split("|");
-      onViewSelected(parts[0], parts[1], node.parent || "");
-    } else {
+      openView(toBookmark(node));
+    } else if (node.type === "translate") {
+      translateVersion(node);
+    } else if (!LEAF_NODE_TYPES.includes(node.type)) {
       toggleNode(node.id);
     }
   };
@@ -285,25 +834,37 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
           return <File className="h-4 w-4 text-gray-500" />;
         case "version":
           return <Clock className="h-4 w-4 text-purple-500" />;
+        case "group":
+          return <Layers className="h-4 w-4 text-blue-500" />;
         case "view":
-          return <Eye className="h-4 w-4 text-blue-500" />;
+          return node.role === "2d" ? <FileText className="h-4 w-4 text-blue-500" /> : <Eye className="h-4 w-4 text-blue-500" />;
         case "error":
           return <Box className="h-4 w-4 text-red-500" />;
+        case "warning":
+          return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
+        case "translate":
+          return <Play className="h-4 w-4 text-green-500" />;
+        case "translating":
+          return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />;
         default:
           return <FolderClosed className="h-4 w-4" />;
       }
     };
 
+    const isFavourite = favourites.some((favourite) => favourite.nodeId === node.id);
+
     return (
       <div key={node.id}>
         {/* Node container with dynamic indentation based on level */}
         <div
-          className="flex items-center px-2 py-1 hover:bg-gray-100 hover:dark:bg-gray-600 rounded cursor-pointer"
+          className={`flex items-center px-2 py-1 hover:bg-gray-100 hover:dark:bg-gray-600 rounded cursor-pointer ${
+            node.type === "view" && node.id === selectedViewNodeId ? "bg-blue-100 dark:bg-slate-600" : ""
+          }`}
           style={{ paddingLeft: `${level * 16 + 8}px` }}
           onClick={() => handleNodeClick(node)}
         >
-          {/* Display toggle icon for nodes that are not views */}
-          {node.type !== "view" && (
+          {/* Display toggle icon for nodes that have children */}
+          {!LEAF_NODE_TYPES.includes(node.type) && (
             <div className="mr-1">
               {node.isLoading ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -317,12 +878,128 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
           {/* Display node-specific icon */}
           <div className="mr-2">{getNodeIcon()}</div>
           {/* Display node name */}
-          <div className="text-sm truncate">{node.name}</div>
+          <div className="text-sm truncate" title={getNodeTooltip(node)}>
+            {node.name}
+          </div>
+          {/* Version details as secondary text */}
+          {node.metadata && (
+            <div className="ml-2 text-xs text-gray-500 dark:text-gray-400 shrink-0" title={getNodeTooltip(node)}>
+              {getMetadataSummary(node)}
+            </div>
+          )}
+          {/* Search action for project nodes: finds files in the project's folders */}
+          {node.type === "project" && (
+            <button
+              title="Search for files in this project"
+              onClick={(e) => {
+                e.stopPropagation();
+                openSearch(node);
+              }}
+              className="ml-auto pl-2 text-gray-400 hover:text-blue-500"
+            >
+              <Search className="h-4 w-4" />
+            </button>
+          )}
+          {/* Favourite toggle for items, versions and views */}
+          {BOOKMARK_NODE_TYPES.includes(node.type) && (
+            <button
+              title={isFavourite ? "Remove from favourites" : "Add to favourites"}
+              onClick={(e) => {
+                e.stopPropagation();
+                updateFavourites(toggleFavourite(favourites, toBookmark(node)));
+              }}
+              className={`ml-auto pl-2 hover:text-yellow-500 ${isFavourite ? "text-yellow-500" : "text-gray-400"}`}
+            >
+              <Star className="h-4 w-4" fill={isFavourite ? "currentColor" : "none"} />
+            </button>
+          )}
+          {/* Compare action for version nodes: diffs the open model against this version */}
+          {node.type === "version" && onCompareVersion && (
+            <button
+              title="Compare the open model with this version"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCompareVersion(btoa(node.id.split("|")[1]));
+              }}
+              className="pl-2 text-gray-400 hover:text-blue-500"
+            >
+              <GitCompare className="h-4 w-4" />
+            </button>
+          )}
+          {/* Inspect action for version nodes: opens the derivative manifest of this version */}
+          {node.type === "version" && onInspectVersion && (
+            <button
+              title="Inspect the derivatives of this version"
+              onClick={(e) => {
+                e.stopPropagation();
+                onInspectVersion(btoa(node.id.split("|")[1]), node.name, regionOverride || node.region || DEFAULT_REGION);
+              }}
+              className="pl-2 text-gray-400 hover:text-blue-500"
+            >
+              <FileSearch className="h-4 w-4" />
+            </button>
+          )}
         </div>
 
         {/* Recursively render children if node is open */}
         {node.isOpen && node.children && node.children.length > 0 && (
-          <div>{node.children.map((child) => renderTreeNode(child, level + 1))}</div>
+          <div>
+            {node.children
+              .filter((child) => !showRevitOnly || child.type !== "item" || isRevitFile(child))
+              .map((child) => renderTreeNode(child, level + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * renderBookmark - Renders a recent or favourite model with the path leading to it.
+   * @param bookmark - The bookmark to render.
+   * @param removable - Whether the bookmark is a favourite, with a toggle to remove it.
+   * @returns A JSX element representing the bookmark.
+   */
+  const renderBookmark = (bookmark: Bookmark, removable: boolean) => {
+    const path = bookmark.path.join(" / ");
+    const icon =
+      bookmark.type === "item" ? (
+        <File className="h-4 w-4 text-gray-500" />
+      ) : bookmark.type === "version" ? (
+        <Clock className="h-4 w-4 text-purple-500" />
+      ) : bookmark.view?.role === "2d" ? (
+        <FileText className="h-4 w-4 text-blue-500" />
+      ) : (
+        <Eye className="h-4 w-4 text-blue-500" />
+      );
+
+    return (
+      <div
+        key={bookmark.nodeId}
+        className={`flex items-center px-2 py-1 hover:bg-gray-100 hover:dark:bg-gray-600 rounded cursor-pointer ${
+          bookmark.view && bookmark.nodeId === selectedViewNodeId ? "bg-blue-100 dark:bg-slate-600" : ""
+        }`}
+        onClick={() => handleBookmarkClick(bookmark)}
+      >
+        <div className="mr-2">{icon}</div>
+        <div className="min-w-0">
+          <div className="text-sm truncate" title={bookmark.name}>
+            {bookmark.name}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={path}>
+            {path}
+          </div>
+        </div>
+        {removable && (
+          <button
+            title="Remove from favourites"
+            onClick={(e) => {
+              e.stopPropagation();
+              updateFavourites(toggleFavourite(favourites, bookmark));
+            }}
+            className="ml-auto pl-2 text-yellow-500 hover:text-gray-400"
+          >
+            <Star className="h-4 w-4" fill="currentColor" />
+          </button>
         )}
       </div>
     );
@@ -331,6 +1008,102 @@ export function Sidebar({ region, onViewSelected }: SidebarProps) {
   return (
     <Card className="h-full rounded-xl py-4">
       <CardContent className="p-2 overflow-auto">
+        {/* File search in a project, jumping to the versions of a result */}
+        {searchProject && (
+          <div className="mb-2 pb-2 border-b dark:border-slate-700">
+            <div className="flex items-center gap-2 px-2 py-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+              <Search className="h-4 w-4 shrink-0" />
+              <span className="truncate" title={searchProject.name}>
+                Search {searchProject.name}
+              </span>
+              <button title="Close the search" onClick={() => setSearchProject(null)} className="ml-auto hover:text-blue-500">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <form
+              className="flex gap-1 px-2 py-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                searchFiles();
+              }}
+            >
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="File name"
+                className="min-w-0 flex-1 px-2 py-1 border rounded text-sm dark:bg-slate-800 dark:text-white dark:border-slate-600"
+              />
+              <input
+                type="text"
+                value={searchExtensions}
+                onChange={(e) => setSearchExtensions(e.target.value)}
+                placeholder="rvt, ifc"
+                title="File extensions, separated by commas"
+                className="w-20 px-2 py-1 border rounded text-sm dark:bg-slate-800 dark:text-white dark:border-slate-600"
+              />
+              <button type="submit" title="Search" disabled={isSearching} className="px-1 text-gray-400 hover:text-blue-500 disabled:opacity-50">
+                {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              </button>
+            </form>
+            {searchError && <p className="px-2 py-1 text-sm text-red-500">{searchError}</p>}
+            {searchResults && searchResults.results.length === 0 && !searchResults.truncated && (
+              <p className="px-2 py-1 text-sm text-gray-500">No files found</p>
+            )}
+            {searchResults &&
+              searchResults.results.map((result) => {
+                const path = result.folders.map((folder) => folder.name).join(" / ");
+                return (
+                  <div
+                    key={result.itemId}
+                    className="flex items-center px-2 py-1 hover:bg-gray-100 hover:dark:bg-gray-600 rounded cursor-pointer"
+                    onClick={() => handleSearchResultClick(result)}
+                  >
+                    <div className="mr-2">
+                      <File className="h-4 w-4 text-gray-500" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-sm truncate" title={result.name}>
+                        {result.name}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={path}>
+                        {path}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            {searchResults?.truncated && (
+              <p className="px-2 py-1 text-sm text-gray-500">The search stopped early, so more files may match. Refine it to find them.</p>
+            )}
+          </div>
+        )}
+        {/* Recent and favourite models, opened without navigating the tree */}
+        {recentViews.length > 0 && (
+          <div className="mb-2 pb-2 border-b dark:border-slate-700">
+            <div className="flex items-center gap-2 px-2 py-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+              <History className="h-4 w-4" />
+              Recent
+              <button title="Clear the recent views" onClick={() => updateRecentViews([])} className="ml-auto normal-case font-normal hover:text-blue-500">
+                Clear
+              </button>
+            </div>
+            {recentViews.map((bookmark) => renderBookmark(bookmark, false))}
+          </div>
+        )}
+        {favourites.length > 0 && (
+          <div className="mb-2 pb-2 border-b dark:border-slate-700">
+            <div className="flex items-center gap-2 px-2 py-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+              <Star className="h-4 w-4" />
+              Favourites
+            </div>
+            {favourites.map((bookmark) => renderBookmark(bookmark, true))}
+          </div>
+        )}
+        <label className="flex items-center gap-2 px-2 py-1 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={showRevitOnly} onChange={(e) => handleRevitOnlyChange(e.target.checked)} />
+          Revit files only (.rvt)
+        </label>
         {loading ? (
           <div className="flex justify-center items-center h-full">
             <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
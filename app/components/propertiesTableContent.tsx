@@ -0,0 +1,318 @@
+// app/components/propertiesTableContent.tsx
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { ArrowDown, ArrowUp, Columns, X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { TableColumnLayout, TableLayout } from "@/types";
+import { formatDisplayValue, formatPropertyValue, getPropertyColumnKey, getPropertyValue, ID_COLUMN_KEY, NAME_COLUMN_KEY, PropertyColumn, sortByColumn } from "@/lib/properties";
+import { formatParsedValue, ParsedValue, parsePropertyValue, sumParsedValues, UnitSystem } from "@/lib/units";
+
+interface PropertiesTableContentProps {
+    data: PropertiesDataCollection[];
+    columns: PropertyColumn[];
+    layout: TableLayout;
+    unitSystem: UnitSystem;
+    onLayoutChange: (layout: TableLayout) => void;
+    onSelect: (objectId: number) => void;
+}
+
+// Width of a newly added column and the minimum width a column can be resized to, in pixels.
+const DEFAULT_COLUMN_WIDTH = 160;
+const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * getColumnLabel - Formats a property column the way Revit groups parameters, e.g. "Identity Data > Mark".
+ */
+const getColumnLabel = (column: PropertyColumn) => `${column.category} > ${column.property}`;
+
+/**
+ * ColumnPicker renders a searchable checklist of every property path found in the loaded properties.
+ * Ticking a path adds it as a table column; unticking removes it.
+ */
+const ColumnPicker: React.FC<{
+    columns: PropertyColumn[];
+    selected: Set<string>;
+    onToggle: (column: PropertyColumn) => void;
+    onClose: () => void;
+}> = ({ columns, selected, onToggle, onClose }) => {
+    const [filter, setFilter] = useState("");
+
+    // Keep only the property paths matching the filter text.
+    const visibleColumns = useMemo(() => {
+        const text = filter.toLowerCase();
+        return columns.filter((column) => getColumnLabel(column).toLowerCase().includes(text));
+    }, [columns, filter]);
+
+    return (
+        <div className="absolute right-0 top-full mt-1 z-20 w-80 max-h-96 flex flex-col border rounded bg-white dark:bg-slate-800 dark:border-slate-600 shadow-lg">
+            <div className="flex items-center gap-2 p-2 border-b dark:border-slate-600">
+                <input
+                    type="text"
+                    autoFocus
+                    placeholder="Filter parameters..."
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    className="flex-1 px-2 py-1 border rounded text-sm dark:bg-slate-900 dark:text-white dark:border-slate-600"
+                />
+                <Button variant="ghost" size="icon" onClick={onClose} className="size-7">
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+            <div className="overflow-y-auto p-1">
+                {visibleColumns.length > 0 ? (
+                    visibleColumns.map((column) => {
+                        const key = getPropertyColumnKey(column);
+                        return (
+                            <label key={key} className="flex items-center gap-2 px-2 py-1 text-sm rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-slate-700 dark:text-white">
+                                <input type="checkbox" checked={selected.has(key)} onChange={() => onToggle(column)} />
+                                <span className="truncate">{getColumnLabel(column)}</span>
+                            </label>
+                        );
+                    })
+                ) : (
+                    <p className="px-2 py-1 text-sm text-gray-500 dark:text-gray-400">No parameters found</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * PropertiesTableContent renders a Revit schedule-like table of elements.
+ * Besides the fixed name and ID columns, users choose parameter columns, sort by clicking a header,
+ * resize columns by dragging a header edge and reorder them by dragging a header.
+ * Layout changes are reported through onLayoutChange so the parent can persist them.
+ * Like a Revit schedule, a footer row totals the columns holding lengths, areas, volumes or masses.
+ */
+const PropertiesTableContent: React.FC<PropertiesTableContentProps> = ({ data, columns, layout, unitSystem, onLayoutChange, onSelect }) => {
+    const [showPicker, setShowPicker] = useState(false);
+    const [draggedKey, setDraggedKey] = useState<string | null>(null);
+    // Width of the column currently being resized; committed to the layout when the drag ends.
+    const [resizing, setResizing] = useState<{ key: string; startX: number; startWidth: number; width: number } | null>(null);
+
+    const selectedKeys = useMemo(() => new Set(layout.columns.map(getPropertyColumnKey)), [layout.columns]);
+
+    /**
+     * sortedData - Sorts the rows by the active sort column. Empty values always sort last.
+     */
+    const sortedData = useMemo(
+        () => sortByColumn(data, layout.columns, layout.sortKey, layout.sortDirection),
+        [data, layout.columns, layout.sortKey, layout.sortDirection]
+    );
+
+    /**
+     * totals - Sum of each column whose non-blank values all share one physical dimension.
+     */
+    const totals = useMemo(() => {
+        const result = new Map<string, string>();
+        layout.columns.forEach((column) => {
+            const values: ParsedValue[] = [];
+            for (const item of data) {
+                const raw = getPropertyValue(item, column);
+                if (formatPropertyValue(raw).trim() === "") continue;
+                const parsed = parsePropertyValue(raw);
+                if (!parsed || parsed.dimension === "none") return;
+                values.push(parsed);
+            }
+            const total = sumParsedValues(values, unitSystem);
+            if (total) result.set(getPropertyColumnKey(column), formatParsedValue(total));
+        });
+        return result;
+    }, [data, layout.columns, unitSystem]);
+
+    /**
+     * handleSort - Sorts by the given column, toggling the direction if it is already active.
+     */
+    const handleSort = (key: string) => {
+        if (layout.sortKey === key) {
+            onLayoutChange({ ...layout, sortDirection: layout.sortDirection === "asc" ? "desc" : "asc" });
+        } else {
+            onLayoutChange({ ...layout, sortKey: key, sortDirection: "asc" });
+        }
+    };
+
+    /**
+     * handleToggleColumn - Adds or removes a parameter column.
+     */
+    const handleToggleColumn = (column: PropertyColumn) => {
+        const key = getPropertyColumnKey(column);
+        if (selectedKeys.has(key)) {
+            onLayoutChange({
+                ...layout,
+                columns: layout.columns.filter((existing) => getPropertyColumnKey(existing) !== key),
+                sortKey: layout.sortKey === key ? NAME_COLUMN_KEY : layout.sortKey,
+            });
+        } else {
+            onLayoutChange({ ...layout, columns: [...layout.columns, { ...column, width: DEFAULT_COLUMN_WIDTH }] });
+        }
+    };
+
+    /**
+     * handleDrop - Moves the dragged column in front of the column it was dropped on.
+     */
+    const handleDrop = (targetKey: string) => {
+        if (!draggedKey || draggedKey === targetKey) return;
+
+        const columnsCopy = [...layout.columns];
+        const fromIndex = columnsCopy.findIndex((column) => getPropertyColumnKey(column) === draggedKey);
+        const [moved] = columnsCopy.splice(fromIndex, 1);
+        const toIndex = columnsCopy.findIndex((column) => getPropertyColumnKey(column) === targetKey);
+        columnsCopy.splice(toIndex, 0, moved);
+
+        onLayoutChange({ ...layout, columns: columnsCopy });
+    };
+
+    // Track the mouse while a column is being resized and commit the width on release.
+    useEffect(() => {
+        if (!resizing) return;
+
+        const handleMouseMove = (e: MouseEvent) => {
+            setResizing((prev) => (prev ? { ...prev, width: Math.max(MIN_COLUMN_WIDTH, prev.startWidth + e.clientX - prev.startX) } : prev));
+        };
+        const handleMouseUp = () => {
+            onLayoutChange({
+                ...layout,
+                columns: layout.columns.map((column) => (getPropertyColumnKey(column) === resizing.key ? { ...column, width: resizing.width } : column)),
+            });
+            setResizing(null);
+        };
+
+        window.addEventListener("mousemove", handleMouseMove);
+        window.addEventListener("mouseup", handleMouseUp);
+        return () => {
+            window.removeEventListener("mousemove", handleMouseMove);
+            window.removeEventListener("mouseup", handleMouseUp);
+        };
+    }, [resizing, layout, onLayoutChange]);
+
+    /**
+     * renderSortIcon - Shows the sort direction next to the active column header.
+     */
+    const renderSortIcon = (key: string) => {
+        if (layout.sortKey !== key) return null;
+        return layout.sortDirection === "asc" ? <ArrowUp className="h-3 w-3 shrink-0" /> : <ArrowDown className="h-3 w-3 shrink-0" />;
+    };
+
+    const getColumnWidth = (column: TableColumnLayout) => {
+        return resizing && resizing.key === getPropertyColumnKey(column) ? resizing.width : column.width;
+    };
+
+    const headerClassName = "relative px-2 py-1 text-left font-semibold border-b border-r dark:border-slate-600 bg-gray-100 dark:bg-slate-700 dark:text-white select-none";
+
+    return (
+        <div className="w-full h-full flex flex-col">
+            {/* Toolbar */}
+            <div className="flex items-center justify-between p-2 border-b dark:border-slate-700">
+                <span className="text-sm text-gray-500 dark:text-gray-400">{data.length} elements</span>
+                <div className="relative">
+                    <Button variant="outline" size="sm" onClick={() => setShowPicker((prev) => !prev)}>
+                        <Columns />
+                        Columns ({layout.columns.length})
+                    </Button>
+                    {showPicker && <ColumnPicker columns={columns} selected={selectedKeys} onToggle={handleToggleColumn} onClose={() => setShowPicker(false)} />}
+                </div>
+            </div>
+
+            {/* Schedule table */}
+            <div className="flex-1 overflow-auto">
+                <table className="table-fixed border-collapse text-sm">
+                    <thead className="sticky top-0 z-10">
+                        <tr>
+                            <th className={`${headerClassName} w-64 cursor-pointer`} onClick={() => handleSort(NAME_COLUMN_KEY)}>
+                                <div className="flex items-center gap-1">
+                                    <span className="truncate">Name</span>
+                                    {renderSortIcon(NAME_COLUMN_KEY)}
+                                </div>
+                            </th>
+                            <th className={`${headerClassName} w-24 cursor-pointer`} onClick={() => handleSort(ID_COLUMN_KEY)}>
+                                <div className="flex items-center gap-1">
+                                    <span className="truncate">ID</span>
+                                    {renderSortIcon(ID_COLUMN_KEY)}
+                                </div>
+                            </th>
+                            {layout.columns.map((column) => {
+                                const key = getPropertyColumnKey(column);
+                                return (
+                                    <th
+                                        key={key}
+                                        draggable={!resizing}
+                                        onDragStart={() => setDraggedKey(key)}
+                                        onDragEnd={() => setDraggedKey(null)}
+                                        onDragOver={(e) => e.preventDefault()}
+                                        onDrop={() => handleDrop(key)}
+                                        onClick={() => handleSort(key)}
+                                        title={getColumnLabel(column)}
+                                        style={{ width: getColumnWidth(column) }}
+                                        className={`${headerClassName} cursor-pointer ${draggedKey === key ? "opacity-50" : ""}`}
+                                    >
+                                        <div className="flex items-center gap-1">
+                                            <span className="truncate">{column.property}</span>
+                                            {renderSortIcon(key)}
+                                        </div>
+                                        <span className="block truncate text-xs font-normal text-gray-500 dark:text-gray-400">{column.category}</span>
+                                        {/* Resize handle on the right edge of the header */}
+                                        <div
+                                            onMouseDown={(e) => {
+                                                e.preventDefault();
+                                                e.stopPropagation();
+                                                setResizing({ key, startX: e.clientX, startWidth: column.width, width: column.width });
+                                            }}
+                                            onClick={(e) => e.stopPropagation()}
+                                            className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400"
+                                        />
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedData.map((item) => (
+                            <tr
+                                key={item.objectid}
+                                onClick={() => {
+                                    try {
+                                        // Call the onSelect callback with the object's ID
+                                        onSelect(item.objectid);
+                                    } catch (error) {
+                                        // Log any errors during selection
+                                        console.error("Error selecting property:", error);
+                                    }
+                                }}
+                                className="cursor-pointer hover:bg-gray-100 dark:hover:bg-slate-700 dark:text-white"
+                            >
+                                <td className="px-2 py-1 border-b border-r dark:border-slate-700 truncate">{item.name}</td>
+                                <td className="px-2 py-1 border-b border-r dark:border-slate-700 text-gray-500 dark:text-gray-400">{item.objectid}</td>
+                                {layout.columns.map((column) => {
+                                    const value = formatDisplayValue(getPropertyValue(item, column), unitSystem);
+                                    return (
+                                        <td key={getPropertyColumnKey(column)} title={value} className="px-2 py-1 border-b border-r dark:border-slate-700 truncate">
+                                            {value}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                    {totals.size > 0 && (
+                        <tfoot className="sticky bottom-0">
+                            <tr className="font-semibold bg-gray-100 dark:bg-slate-700 dark:text-white">
+                                <td className="px-2 py-1 border-t border-r dark:border-slate-600">Total</td>
+                                <td className="px-2 py-1 border-t border-r dark:border-slate-600" />
+                                {layout.columns.map((column) => {
+                                    const key = getPropertyColumnKey(column);
+                                    return (
+                                        <td key={key} className="px-2 py-1 border-t border-r dark:border-slate-600 truncate">
+                                            {totals.get(key)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default PropertiesTableContent;
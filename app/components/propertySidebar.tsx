@@ -4,9 +4,14 @@ import { X, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import React, { useRef, useState, useEffect } from "react";
+import { formatDisplayValue } from "@/lib/properties";
+import { UnitSystem } from "@/lib/units";
+import { ElementDiff, ParameterChange } from "@/types";
 
 interface PropertySidebarProps {
     object: PropertiesDataCollection | null;
+    unitSystem: UnitSystem;
+    diff?: ElementDiff | null;
     onClose: () => void;
 }
 
@@ -57,13 +62,21 @@ const ConditionalTooltip: React.FC<{
     return isTruncated ? tooltipContent : children;
 };
 
+// Badge styles for the status of an element in a version comparison.
+const STATUS_BADGES: Record<ElementDiff["status"], string> = {
+    added: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+    modified: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+    removed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
 /**
  * PropertySidebar Component
  * Renders a sidebar that displays the properties of a selected object.
  * It includes a header with the object's name and a close button,
  * and the main content displays categorized property details.
+ * During a version comparison, changed parameters show their previous value.
  */
-const PropertySidebar: React.FC<PropertySidebarProps> = ({ object, onClose }) => {
+const PropertySidebar: React.FC<PropertySidebarProps> = ({ object, unitSystem, diff, onClose }) => {
     // If no object is selected, render an empty state with instructions
     if (!object) {
         return (
@@ -78,13 +91,22 @@ const PropertySidebar: React.FC<PropertySidebarProps> = ({ object, onClose }) =>
                 <div className="flex-1 flex items-center justify-center p-4">
                     <div className="text-center">
                         <Info className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                        <p className="text-gray-500 dark:text-gray-400">Select an element from the tree or list view to see its properties</p>
+                        <p className="text-gray-500 dark:text-gray-400">Select an element from the tree, list or table view to see its properties</p>
                     </div>
                 </div>
             </div>
         );
     }
 
+    // Index the parameter changes by category and property name. Added and removed elements
+    // list every parameter as a change, so only modified elements need per-parameter markers.
+    const changes = new Map<string, ParameterChange>();
+    if (diff?.status === "modified") {
+        diff.changes.forEach((change) => changes.set(`${change.category}\u0000${change.property}`, change));
+    }
+    // Parameters that existed in the compared version but were deleted since.
+    const deletedParameters = diff?.status === "modified" ? diff.changes.filter((change) => change.newValue === undefined) : [];
+
     return (
         <div className="h-full flex flex-col border-l dark:border-slate-700 bg-white dark:bg-card overflow-hidden">
             {/* Sidebar Header */}
@@ -92,6 +114,7 @@ const PropertySidebar: React.FC<PropertySidebarProps> = ({ object, onClose }) =>
                 <ConditionalTooltip text={`${object.name} #${object.objectid}`}>
                     <h2 className="text-lg font-semibold truncate dark:text-white max-w-[85%]">
                         {object.name} <span className="text-sm text-gray-500 dark:text-gray-400">#{object.objectid}</span>
+                        {diff && <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${STATUS_BADGES[diff.status]}`}>{diff.status}</span>}
                     </h2>
                 </ConditionalTooltip>
 
@@ -123,17 +146,46 @@ const PropertySidebar: React.FC<PropertySidebarProps> = ({ object, onClose }) =>
 
                                     {/* Property List for the Category */}
                                     <div className="border dark:border-slate-700 rounded">
-                                        {Object.entries(props).map(([propName, propValue]) => (
-                                            <div key={propName} className="flex border-b last:border-b-0 dark:border-neutral-600">
+                                        {Object.entries(props).map(([propName, propValue]) => {
+                                            const change = changes.get(`${category}\u0000${propName}`);
+                                            return (
+                                                <div key={propName} className={`flex border-b last:border-b-0 dark:border-neutral-600 ${change ? "ring-1 ring-inset ring-amber-400" : ""}`}>
+                                                    <div className="w-3/5 py-1 px-4 bg-gray-50 dark:bg-neutral-700 font-medium text-gray-800 dark:text-gray-200 border-r dark:border-neutral-600">
+                                                        {propName}:
+                                                    </div>
+                                                    <div className="w-2/5 py-1 px-4 bg-gray-50 dark:bg-neutral-700 text-gray-600 dark:text-gray-400" title={String(propValue)}>
+                                                        {formatDisplayValue(propValue, unitSystem)}
+                                                        {/* Previous value of a changed parameter */}
+                                                        {change && (
+                                                            <div className="text-xs text-red-600 dark:text-red-400 line-through">
+                                                                {change.oldValue === undefined ? "(not set)" : formatDisplayValue(change.oldValue, unitSystem) || "(blank)"}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                            {/* Parameters deleted since the compared version */}
+                            {deletedParameters.length > 0 && (
+                                <div className="mb-4">
+                                    <h3 className="font-semibold text-red-700 dark:text-red-300 bg-gray-100 dark:bg-neutral-800 p-2 rounded">Removed parameters</h3>
+                                    <div className="border dark:border-slate-700 rounded">
+                                        {deletedParameters.map((change) => (
+                                            <div key={`${change.category}.${change.property}`} className="flex border-b last:border-b-0 dark:border-neutral-600">
                                                 <div className="w-3/5 py-1 px-4 bg-gray-50 dark:bg-neutral-700 font-medium text-gray-800 dark:text-gray-200 border-r dark:border-neutral-600">
-                                                    {propName}:
+                                                    {change.category} &gt; {change.property}:
+                                                </div>
+                                                <div className="w-2/5 py-1 px-4 bg-gray-50 dark:bg-neutral-700 text-red-600 dark:text-red-400 line-through">
+                                                    {formatDisplayValue(change.oldValue, unitSystem)}
                                                 </div>
-                                                <div className="w-2/5 py-1 px-4 bg-gray-50 dark:bg-neutral-700 text-gray-600 dark:text-gray-400">{String(propValue)}</div>
                                             </div>
                                         ))}
                                     </div>
                                 </div>
-                            ))}
+                            )}
                         </div>
                     ) : (
                         // Show this message when the properties object exists but is empty
@@ -0,0 +1,132 @@
+// app/components/queryInput.tsx
+import { Search } from "lucide-react";
+import React, { useMemo, useRef, useState } from "react";
+import { getQuerySuggestions, QueryError } from "@/lib/query";
+import { PropertyColumn } from "@/lib/properties";
+
+interface QueryInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    error: QueryError | null;
+    columns: PropertyColumn[];
+}
+
+/**
+ * QueryInput Component
+ * Renders the search box for the query language. It autocompletes property names
+ * found in the loaded model and shows syntax errors inline below the input.
+ */
+const QueryInput: React.FC<QueryInputProps> = ({ value, onChange, error, columns }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [cursor, setCursor] = useState(0);
+    const [focused, setFocused] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [dismissed, setDismissed] = useState(false);
+
+    // Compute suggestions for the fragment at the cursor.
+    const completion = useMemo(() => getQuerySuggestions(value, cursor, columns), [value, cursor, columns]);
+    const showSuggestions = focused && !dismissed && completion.suggestions.length > 0;
+
+    /**
+     * updateCursor - Keeps track of the caret position so suggestions follow it.
+     */
+    const updateCursor = () => {
+        setCursor(inputRef.current?.selectionStart ?? value.length);
+    };
+
+    /**
+     * applySuggestion - Replaces the fragment at the cursor with the chosen field.
+     */
+    const applySuggestion = (suggestion: string) => {
+        const nextValue = value.slice(0, completion.start) + suggestion + " " + value.slice(completion.end);
+        const nextCursor = completion.start + suggestion.length + 1;
+        onChange(nextValue);
+        setCursor(nextCursor);
+        setActiveIndex(0);
+
+        // Restore the caret after React re-renders the input.
+        requestAnimationFrame(() => {
+            inputRef.current?.focus();
+            inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+        });
+    };
+
+    /**
+     * handleKeyDown - Navigates and accepts suggestions with the keyboard.
+     */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!showSuggestions) return;
+
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActiveIndex((prev) => (prev + 1) % completion.suggestions.length);
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActiveIndex((prev) => (prev - 1 + completion.suggestions.length) % completion.suggestions.length);
+        } else if (e.key === "Enter" || e.key === "Tab") {
+            e.preventDefault();
+            applySuggestion(completion.suggestions[Math.min(activeIndex, completion.suggestions.length - 1)]);
+        } else if (e.key === "Escape") {
+            setDismissed(true);
+        }
+    };
+
+    return (
+        <div className="relative flex-grow">
+            <div className="absolute top-0 h-10 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+                ref={inputRef}
+                type="text"
+                placeholder='Search by name or ID, or query e.g. Category = "Walls" AND Dimensions.Area > 10'
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setCursor(e.target.selectionStart ?? e.target.value.length);
+                    setActiveIndex(0);
+                    setDismissed(false);
+                }}
+                onKeyDown={handleKeyDown}
+                onKeyUp={updateCursor}
+                onClick={updateCursor}
+                onFocus={() => setFocused(true)}
+                onBlur={() => setFocused(false)}
+                spellCheck={false}
+                className={`pl-10 pr-3 py-2 h-10 border rounded w-full font-mono text-sm dark:bg-slate-800 dark:text-white ${
+                    error ? "border-red-500 dark:border-red-500" : "dark:border-slate-600"
+                }`}
+            />
+
+            {/* Inline syntax error */}
+            {error && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                    {error.message} (at character {error.position + 1})
+                </p>
+            )}
+
+            {/* Property name suggestions */}
+            {showSuggestions && (
+                <ul className="absolute left-0 right-0 top-11 z-20 max-h-64 overflow-y-auto border rounded bg-white dark:bg-slate-800 dark:border-slate-600 shadow-lg">
+                    {completion.suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion}
+                            // Prevent the input from losing focus before the click is handled.
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                applySuggestion(suggestion);
+                            }}
+                            className={`px-3 py-1 font-mono text-sm cursor-pointer truncate dark:text-white ${
+                                index === activeIndex ? "bg-blue-100 dark:bg-slate-600" : "hover:bg-gray-100 dark:hover:bg-slate-700"
+                            }`}
+                        >
+                            {suggestion}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default QueryInput;
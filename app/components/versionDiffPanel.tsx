@@ -0,0 +1,73 @@
+// app/components/versionDiffPanel.tsx
+import { ChevronDown, ChevronRight, GitCompare, X } from "lucide-react";
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ElementDiff, VersionDiff } from "@/types";
+
+interface VersionDiffPanelProps {
+    diff: VersionDiff;
+    showChangesOnly: boolean;
+    onShowChangesOnlyChange: (value: boolean) => void;
+    onSelectRemoved: (element: ElementDiff) => void;
+    onClose: () => void;
+}
+
+/**
+ * VersionDiffPanel Component
+ * Summarises a comparison between two versions of the open model. Added and modified elements
+ * are marked in the tree and list views; removed elements no longer exist in the open version,
+ * so they are listed here and can be opened in the property sidebar.
+ */
+const VersionDiffPanel: React.FC<VersionDiffPanelProps> = ({ diff, showChangesOnly, onShowChangesOnlyChange, onSelectRemoved, onClose }) => {
+    const [showRemoved, setShowRemoved] = useState(false);
+
+    return (
+        <div className="border rounded dark:border-slate-700 bg-gray-50 dark:bg-neutral-800">
+            <div className="flex flex-wrap items-center gap-4 px-3 py-2">
+                <div className="flex items-center gap-2 font-semibold text-sm dark:text-white">
+                    <GitCompare className="h-4 w-4 text-blue-500" />
+                    Version comparison
+                </div>
+                <span className="text-sm text-green-600 dark:text-green-400">{diff.added.length} added</span>
+                <span className="text-sm text-amber-600 dark:text-amber-400">{diff.modified.length} modified</span>
+                <button
+                    onClick={() => setShowRemoved((prev) => !prev)}
+                    disabled={diff.removed.length === 0}
+                    className="flex items-center text-sm text-red-600 dark:text-red-400 disabled:cursor-default"
+                >
+                    {diff.removed.length > 0 && (showRemoved ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                    {diff.removed.length} removed
+                </button>
+                <div className="flex items-center gap-2 ml-auto">
+                    <Switch id="show-changes-only" checked={showChangesOnly} onCheckedChange={onShowChangesOnlyChange} />
+                    <Label htmlFor="show-changes-only" className="text-sm dark:text-white">
+                        Changed elements only
+                    </Label>
+                    <Button variant="ghost" size="icon" onClick={onClose} className="size-7" title="Close comparison">
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {/* Removed elements, which are not part of the open version's tree */}
+            {showRemoved && diff.removed.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto border-t dark:border-slate-700 px-3 py-1">
+                    {diff.removed.map((element) => (
+                        <li key={element.externalId}>
+                            <button
+                                onClick={() => onSelectRemoved(element)}
+                                className="w-full text-left text-sm px-2 py-0.5 rounded text-red-700 dark:text-red-300 line-through hover:bg-gray-100 dark:hover:bg-slate-700"
+                            >
+                                {element.name} [{element.objectid}]
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default VersionDiffPanel;
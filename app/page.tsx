@@ -1,22 +1,54 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Search, UserRound } from "lucide-react";
+import { Download, UserRound, X } from "lucide-react";
 import { Sidebar } from "./components/projectSidebar";
 import { useUser } from "@/lib/client/auth";
+import { readNdjson } from "@/lib/client/stream";
+import { waitForTranslation } from "@/lib/client/translation";
+import { buildDeepLinkSearch, DeepLink, getLinkLocation, parseDeepLink } from "@/lib/client/deepLink";
 import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
 import { Spinner } from "@/components/ui/spinner";
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import Image from "next/image";
 import Tree from "./components/objectsTree";
-import { ObjectTreeData } from "@/types";
+import { ElementDiff, ObjectTreeData, TableLayout, TranslationStatus, TreeLocation, VersionDiff, ViewDataMessage } from "@/types";
 import { Label } from "@/components/ui/label";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import PropertiesListContent from "./components/propertiesListContent";
+import PropertiesTableContent from "./components/propertiesTableContent";
+import ParameterCatalog from "./components/parameterCatalog";
+import ModelChecker from "./components/modelChecker";
 import PropertySidebar from "./components/propertySidebar";
+import ManifestInspector from "./components/manifestInspector";
 import { Viewer } from "./components/modelViewer";
+import { collectPropertyColumns, getObjectCategoryMap, PropertyColumn } from "@/lib/properties";
+import { evaluateQuery, getQueryTextTerms, parseQuery } from "@/lib/query";
+import QueryInput from "./components/queryInput";
+import FacetPanel from "./components/facetPanel";
+import ColorByPanel from "./components/colorByPanel";
+import { buildColorTheme } from "@/lib/theming";
+import VersionDiffPanel from "./components/versionDiffPanel";
+import { toPropertiesData } from "@/lib/diff";
+import { UnitSystem } from "@/lib/units";
+import { matchesParameterFilter, ParameterFilter } from "@/lib/catalog";
+import { classifyElements, computeFacetValues, EMPTY_FACET_SELECTION, FacetSelection, isFacetSelectionEmpty, matchesFacets } from "@/lib/facets";
+import { DEFAULT_REGION, DERIVATIVE_REGIONS } from "@/lib/regions";
+
+// localStorage key of the region picked in the header to override the hubs' regions.
+const REGION_OVERRIDE_KEY = "regionOverride";
+
+// Minimum time between two updates of the properties while they are streamed, in milliseconds.
+const PROPERTIES_FLUSH_INTERVAL = 500;
+
+// Time the hidden frame downloading an export is kept, in milliseconds; removing it earlier could cancel a
+// download whose file is still being prepared.
+const EXPORT_FRAME_LIFETIME = 1000 * 60 * 10; // 10 minutes
+
+// Table layout used until the user customises the schedule view.
+const DEFAULT_TABLE_LAYOUT: TableLayout = { columns: [], sortKey: "name", sortDirection: "asc" };
 
 export default function Home() {
     // Get the current user and loading status from authentication hook
@@ -24,40 +56,215 @@ export default function Home() {
 
     // Local component states for loading, selected model version, properties, etc.
     const [isLoading, setLoading] = useState(false);
+    const [loadProgress, setLoadProgress] = useState<{ stage: "paging" | "download"; loaded: number; total: number } | null>(null);
+    const [translationStatus, setTranslationStatus] = useState<TranslationStatus | null>(null);
     const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+    const [selectedViewGuid, setSelectedViewGuid] = useState<string | null>(null);
+    // Role of the selected view: "3d" for model views, "2d" for sheets and 2D views.
+    const [selectedViewRole, setSelectedViewRole] = useState<string | null>(null);
+    // Position of the open version in the project tree, encoded in the URL.
+    const [selectedLocation, setSelectedLocation] = useState<TreeLocation | null>(null);
     const [properties, setProperties] = useState<PropertiesDataCollection[]>([]);
     const [objectTree, setObjectTree] = useState<ObjectTreeData[]>([]);
     const [searchQuery, setSearchQuery] = useState("");
+    const [facetSelection, setFacetSelection] = useState<FacetSelection>(EMPTY_FACET_SELECTION);
+    const [parameterFilter, setParameterFilter] = useState<ParameterFilter | null>(null);
+    // Parameter the model viewer colours elements by.
+    const [colorColumn, setColorColumn] = useState<PropertyColumn | null>(null);
     const [sortKey, setSortKey] = useState<"name" | "objectid">("name");
     const [selectedObject, setSelectedObject] = useState<PropertiesDataCollection | null>(null);
     const [showSidebar, setShowSidebar] = useState(true);
+    // Version whose derivative manifest is shown in place of the property sidebar.
+    const [inspectedVersion, setInspectedVersion] = useState<{ urn: string; name: string; region: string } | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [expandAll, setExpandAll] = useState(false);
+    const [isExporting, setExporting] = useState(false);
+    const [versionDiff, setVersionDiff] = useState<VersionDiff | null>(null);
+    const [isComparing, setComparing] = useState(false);
+    const [showChangesOnly, setShowChangesOnly] = useState(false);
+    const [selectedDiff, setSelectedDiff] = useState<ElementDiff | null>(null);
 
-    // Initialize region and viewType with default values.
-    const [region, setRegion] = useState<string>("US");
+    // Region picked in the header, overriding the region of the hubs; null to follow each hub.
+    const [regionOverride, setRegionOverride] = useState<string | null>(null);
+    // Model Derivative region of the open model.
+    const [viewRegion, setViewRegion] = useState<string>(DEFAULT_REGION);
+    // Initialize viewType with default values.
     const [viewType, setViewType] = useState<string>("tree");
+    const [tableLayout, setTableLayout] = useState<TableLayout>(DEFAULT_TABLE_LAYOUT);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>("metric");
+
+    // Link being restored from the URL; the URL is only rewritten once its model has been opened.
+    const [pendingLink, setPendingLink] = useState<DeepLink | null>(null);
+    // Location of the linked version, revealed in the project tree.
+    const [linkLocation, setLinkLocation] = useState<TreeLocation | null>(null);
+    const isLinkParsed = useRef(false);
+    const isRestoringLink = useRef(false);
+    // Element of the link, selected once the linked model's properties are loaded.
+    const pendingObjectId = useRef<number | null>(null);
+    // Incremented for each opened view, so data streamed for a previously opened view is ignored.
+    const viewLoadId = useRef(0);
+
+    // Keep the URL in sync with the open model, view, element, tab and search, so it can be reloaded or shared.
+    useEffect(() => {
+        if (!isLinkParsed.current || pendingLink) return;
+
+        const search = buildDeepLinkSearch({
+            region: selectedVersionId ? viewRegion : undefined,
+            hubId: selectedLocation?.hubId,
+            projectId: selectedLocation?.projectId,
+            folderIds: selectedLocation?.folderIds || [],
+            itemId: selectedLocation?.itemId,
+            versionId: selectedVersionId ? atob(selectedVersionId.replace("%2F", "/")) : undefined,
+            viewGuid: selectedViewGuid || undefined,
+            viewRole: selectedViewRole || undefined,
+            objectId: selectedObject?.objectid,
+            viewType,
+            query: searchQuery,
+        });
+        if (search !== window.location.search) {
+            window.history.replaceState(null, "", `${window.location.pathname}${search}`);
+        }
+    }, [pendingLink, viewRegion, selectedLocation, selectedVersionId, selectedViewGuid, selectedViewRole, selectedObject, viewType, searchQuery]);
 
-    // When the component mounts, update the region and viewType from localStorage (client-only).
+    // When the component mounts, update the region override and viewType from localStorage (client-only).
     useEffect(() => {
         if (typeof window !== "undefined") {
-            const storedRegion = localStorage.getItem("preferredRegion");
-            if (storedRegion) {
-                setRegion(storedRegion);
+            const storedRegion = localStorage.getItem(REGION_OVERRIDE_KEY);
+            if (storedRegion && DERIVATIVE_REGIONS.includes(storedRegion)) {
+                setRegionOverride(storedRegion);
             }
             const storedView = localStorage.getItem("preferredViewType");
             if (storedView) {
                 setViewType(storedView);
             }
+            const storedUnitSystem = localStorage.getItem("preferredUnitSystem");
+            if (storedUnitSystem === "metric" || storedUnitSystem === "imperial") {
+                setUnitSystem(storedUnitSystem);
+            }
+            const storedTableLayout = localStorage.getItem("preferredTableLayout");
+            if (storedTableLayout) {
+                try {
+                    setTableLayout({ ...DEFAULT_TABLE_LAYOUT, ...JSON.parse(storedTableLayout) });
+                } catch (error) {
+                    console.error("Invalid stored table layout:", error);
+                }
+            }
+
+            // A link overrides the stored preferences without replacing them.
+            const link = parseDeepLink(window.location.search);
+            if (link.viewType) setViewType(link.viewType);
+            if (link.query) setSearchQuery(link.query);
+            if (link.versionId && link.viewGuid) {
+                pendingObjectId.current = link.objectId ?? null;
+                setLinkLocation(getLinkLocation(link));
+                setPendingLink(link);
+            }
+            isLinkParsed.current = true;
         }
     }, []);
 
+    /**
+     * parsedQuery - The search box text parsed with the query language, including any syntax error.
+     */
+    const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+    /**
+     * objectCategories - Revit category of every object, used by the query language's Category field.
+     */
+    const objectCategories = useMemo(() => getObjectCategoryMap(objectTree), [objectTree]);
+
+    /**
+     * queryContext - Model-level information the query language and the model checks resolve fields with.
+     */
+    const queryContext = useMemo(() => ({ categories: objectCategories, unitSystem }), [objectCategories, unitSystem]);
+
+    /**
+     * queryFilter - Predicate shared by the tree and list views; undefined when there is no valid query.
+     */
+    const queryFilter = useMemo(() => {
+        const query = parsedQuery.query;
+        if (!query) return undefined;
+        return (element: PropertiesDataCollection | ObjectTreeData) => evaluateQuery(query, element, queryContext);
+    }, [parsedQuery, queryContext]);
+
+    /**
+     * classifications - Revit category, family and type of every element, used by the facet panel.
+     */
+    const classifications = useMemo(() => classifyElements(properties, objectTree), [properties, objectTree]);
+
+    /**
+     * facetValues - Distinct facet values with counts over the elements matching the query, the parameter filter and the other facets.
+     */
+    const facetValues = useMemo(() => {
+        const queryMatches = properties.filter(
+            (element) => (!queryFilter || queryFilter(element)) && (!parameterFilter || matchesParameterFilter(element, parameterFilter))
+        );
+        return computeFacetValues(queryMatches, classifications, facetSelection);
+    }, [properties, queryFilter, parameterFilter, classifications, facetSelection]);
+
+    /**
+     * changesByObjectId - Added and modified elements of the active version comparison, keyed by objectid.
+     */
+    const changesByObjectId = useMemo(() => {
+        if (!versionDiff) return undefined;
+        return new Map([...versionDiff.added, ...versionDiff.modified].map((element) => [element.objectid, element]));
+    }, [versionDiff]);
+
+    /**
+     * scopeFilter - Combines the query, the ticked facets and the changed-only toggle; undefined when none is applied.
+     */
+    const scopeFilter = useMemo(() => {
+        const hasFacets = !isFacetSelectionEmpty(facetSelection);
+        const changedOnly = showChangesOnly && changesByObjectId;
+        if (!queryFilter && !hasFacets && !changedOnly) return undefined;
+        return (element: PropertiesDataCollection | ObjectTreeData) =>
+            (!queryFilter || queryFilter(element)) &&
+            (!hasFacets || matchesFacets(classifications.get(element.objectid), facetSelection)) &&
+            (!changedOnly || changesByObjectId.has(element.objectid));
+    }, [queryFilter, facetSelection, classifications, showChangesOnly, changesByObjectId]);
+
+    /**
+     * elementFilter - Narrows the scope filter to the parameter picked in the catalog; undefined when no filter is applied.
+     */
+    const elementFilter = useMemo(() => {
+        if (!parameterFilter) return scopeFilter;
+        return (element: PropertiesDataCollection | ObjectTreeData) =>
+            (!scopeFilter || scopeFilter(element)) && matchesParameterFilter(element, parameterFilter);
+    }, [scopeFilter, parameterFilter]);
+
+    /**
+     * scopedElements - Elements matching the scope filter, used by the parameter catalog and the model checks.
+     * Category, family and type nodes are left out so that only instances are counted and checked.
+     */
+    const scopedElements = useMemo(
+        () => properties.filter((item) => (classifications.size === 0 || classifications.has(item.objectid)) && (!scopeFilter || scopeFilter(item))),
+        [properties, classifications, scopeFilter]
+    );
+
+    /**
+     * propertiesById - Loaded properties keyed by objectid; tree nodes reference their properties through it.
+     */
+    const propertiesById = useMemo(() => new Map(properties.map((item) => [item.objectid, item])), [properties]);
+
+    /**
+     * treeFilter - Applies the element filter to tree nodes through the properties they reference.
+     */
+    const treeFilter = useMemo(() => {
+        if (!elementFilter) return undefined;
+        return (node: ObjectTreeData) => elementFilter(propertiesById.get(node.objectid) || node);
+    }, [elementFilter, propertiesById]);
+
+    /**
+     * highlightTerms - Plain text terms of the query, highlighted in the tree.
+     */
+    const highlightTerms = useMemo(() => getQueryTextTerms(parsedQuery.query), [parsedQuery]);
+
     /**
      * filteredSortedData - Filters and sorts the properties based on the search query and sort key.
      */
     const filteredSortedData = useMemo(() => {
-        // Filter properties matching by name or object ID
-        const filtered = properties.filter((item) => item.name.toLowerCase().includes(searchQuery.toLowerCase()) || item.objectid.toString().includes(searchQuery));
+        // Filter properties matching the query and the facets
+        const filtered = elementFilter ? properties.filter(elementFilter) : properties;
 
         // Sort the filtered data by name or numeric objectid
         return [...filtered].sort((a, b) => {
@@ -67,13 +274,24 @@ export default function Home() {
                 return a.objectid - b.objectid;
             }
         });
-    }, [properties, searchQuery, sortKey]);
+    }, [properties, elementFilter, sortKey]);
+
+    /**
+     * propertyColumns - Every category/property pair found in the loaded properties, offered as table columns.
+     */
+    const propertyColumns = useMemo(() => collectPropertyColumns(properties), [properties]);
+
+    /**
+     * colorTheme - Colours of the elements in the model viewer by the value of the chosen parameter.
+     */
+    const colorTheme = useMemo(() => (colorColumn ? buildColorTheme(properties, colorColumn, unitSystem) : null), [properties, colorColumn, unitSystem]);
 
     /**
      * handleLogin - Redirects the user to the login endpoint.
      */
     const handleLogin = () => {
-        window.location.href = "/api/auth/login";
+        // Return to the same link after signing in.
+        window.location.href = `/api/auth/login?returnTo=${encodeURIComponent(window.location.pathname + window.location.search)}`;
     };
 
     /**
@@ -84,10 +302,22 @@ export default function Home() {
         const object = properties.find((item) => item.objectid === objectId);
         if (object) {
             setSelectedObject(object);
+            setSelectedDiff(changesByObjectId?.get(objectId) || null);
             setShowSidebar(true);
+            setInspectedVersion(null);
         }
     };
 
+    /**
+     * handleRemovedSelect - Shows an element removed since the compared version in the property sidebar.
+     */
+    const handleRemovedSelect = (element: ElementDiff) => {
+        setSelectedObject(toPropertiesData(element));
+        setSelectedDiff(element);
+        setShowSidebar(true);
+        setInspectedVersion(null);
+    };
+
     /**
      * handleLogout - Logs the user out by first hitting Autodesk logout endpoint using an iframe,
      * then redirects to our logout endpoint.
@@ -105,12 +335,28 @@ export default function Home() {
     };
 
     /**
-     * handleServerChange - Updates the region state and persists the preference in localStorage.
+     * handleServerChange - Updates the region override and persists the preference in localStorage.
+     * "auto" clears the override, so each model is read from the region of its hub.
      */
     const handleServerChange = (value: string) => {
-        setRegion(value);
+        const override = value === "auto" ? null : value;
+        setRegionOverride(override);
+        if (typeof window !== "undefined") {
+            if (override) {
+                localStorage.setItem(REGION_OVERRIDE_KEY, override);
+            } else {
+                localStorage.removeItem(REGION_OVERRIDE_KEY);
+            }
+        }
+    };
+
+    /**
+     * handleUnitSystemChange - Updates the display unit system and persists the preference in localStorage.
+     */
+    const handleUnitSystemChange = (value: string) => {
+        setUnitSystem(value as UnitSystem);
         if (typeof window !== "undefined") {
-            localStorage.setItem("preferredRegion", value);
+            localStorage.setItem("preferredUnitSystem", value);
         }
     };
 
@@ -124,21 +370,57 @@ export default function Home() {
         }
     };
 
+    /**
+     * handleParameterFilter - Applies a parameter filter picked in the catalog and shows the matching elements in the tree.
+     */
+    const handleParameterFilter = (filter: ParameterFilter) => {
+        setParameterFilter(filter);
+        handleViewChange("tree");
+    };
+
+    /**
+     * handleTableLayoutChange - Updates the table layout state and persists the preference in localStorage.
+     */
+    const handleTableLayoutChange = useCallback((layout: TableLayout) => {
+        setTableLayout(layout);
+        if (typeof window !== "undefined") {
+            localStorage.setItem("preferredTableLayout", JSON.stringify(layout));
+        }
+    }, []);
+
     /**
      * handleModelViewSelect - Handles the selection of a model view.
-     * It repeatedly polls the API until the model data is ready or times out.
+     * It follows the translation status stream until the view is ready or fails, then reads the
+     * streamed object tree and properties page by page while reporting progress.
      */
-    const handleModelViewSelect = async (type: string, viewGuid: string, itemUrn: string) => {
+    const handleModelViewSelect = async (role: string, viewGuid: string, itemUrn: string, location: TreeLocation | null = null, region: string = DEFAULT_REGION) => {
+        const loadId = ++viewLoadId.current;
         setLoading(true);
         setError(null);
         // Replace "/" with its URL-encoded equivalent in the item URN.
         const encodedUrn = itemUrn.replace("/", "%2F");
         setSelectedVersionId(encodedUrn);
+        setSelectedViewGuid(viewGuid);
+        setSelectedViewRole(role);
+        setSelectedLocation(location);
+        setViewRegion(region);
+        setSelectedObject(null);
+        setFacetSelection(EMPTY_FACET_SELECTION);
+        setParameterFilter(null);
+        setColorColumn(null);
+        setVersionDiff(null);
+        setShowChangesOnly(false);
+        setSelectedDiff(null);
 
-        const maxAttempts = 150;
+        // The property database may still report processing briefly after the status stream says it is ready.
+        const maxAttempts = 5;
         let attempts = 0;
 
         try {
+            // Wait for the translation and property extraction to finish, showing their progress.
+            await waitForTranslation(`/api/modelDerivate/${region}/${encodedUrn}/views/${viewGuid}/status`, setTranslationStatus);
+            setTranslationStatus(null);
+
             while (attempts < maxAttempts) {
                 const res = await fetch(`/api/modelDerivate/${region}/${encodedUrn}/views/${viewGuid}/allProperties`);
 
@@ -146,30 +428,214 @@ export default function Home() {
                     throw new Error(`Failed to load model data (${res.status}: ${res.statusText})`);
                 }
 
-                const data = await res.json();
+                // Show the elements as their pages arrive, updating the properties at most every
+                // PROPERTIES_FLUSH_INTERVAL, so large models do not re-render once per page.
+                let isProcessing = false;
+                let isComplete = false;
+                let pending: PropertiesDataCollection[] = [];
+                let lastFlush = 0;
+                const flushProperties = () => {
+                    const items = pending;
+                    pending = [];
+                    lastFlush = Date.now();
+                    setProperties((prev) => [...prev, ...items]);
+                };
+                await readNdjson<ViewDataMessage>(res, (message) => {
+                    // Another view was opened meanwhile; its own load updates the state.
+                    if (loadId !== viewLoadId.current) return;
 
-                // If model processing is complete, update the properties and object tree.
-                if (!data.isProcessing) {
-                    setProperties(data.properties);
-                    setObjectTree(data.objectTreeWithProperties);
-                    setLoading(false);
+                    if (message.type === "processing") {
+                        isProcessing = true;
+                    } else if (message.type === "error") {
+                        throw new Error(message.message);
+                    } else if (message.type === "progress") {
+                        // Oversized models are fetched from APS in pages before the download starts.
+                        setLoadProgress({ stage: "paging", loaded: message.loaded, total: message.total });
+                    } else if (message.type === "tree") {
+                        // The tree arrives first, so the views can be shown while the properties stream in.
+                        setObjectTree(message.objectTree);
+                        setProperties([]);
+                        setLoadProgress({ stage: "download", loaded: 0, total: message.total });
+                        setLoading(false);
+                    } else if (message.type === "properties") {
+                        pending.push(...message.items);
+                        setLoadProgress((prev) => prev && { ...prev, loaded: prev.loaded + message.items.length });
+                        if (Date.now() - lastFlush >= PROPERTIES_FLUSH_INTERVAL) flushProperties();
+                    } else if (message.type === "end") {
+                        isComplete = true;
+                    }
+                });
+                if (loadId !== viewLoadId.current) return;
+
+                // If model processing is complete, add the last properties.
+                if (!isProcessing) {
+                    if (!isComplete) {
+                        throw new Error("The model data stream ended unexpectedly. Please try again.");
+                    }
+                    flushProperties();
+                    setLoadProgress(null);
                     return;
                 }
 
-                // Wait for 1 second before next attempt.
-                await new Promise((resolve) => setTimeout(resolve, 1000));
+                // Wait for 2 seconds before next attempt.
+                await new Promise((resolve) => setTimeout(resolve, 2000));
                 attempts++;
             }
 
             // If the loop completes without success, throw a timeout error.
             throw new Error("Timeout: Model data is taking too long to load. Please try again later.");
         } catch (error) {
+            if (loadId !== viewLoadId.current) return;
             console.error("Error fetching view properties:", error);
             setError(error instanceof Error ? error.message : "An unexpected error occurred");
+            setTranslationStatus(null);
+            setLoadProgress(null);
             setLoading(false);
         }
     };
 
+    // Latest handleModelViewSelect, used by the effect restoring a link.
+    const handleModelViewSelectRef = useRef(handleModelViewSelect);
+    useEffect(() => {
+        handleModelViewSelectRef.current = handleModelViewSelect;
+    });
+
+    // Open the linked model once the user is signed in; signed-out users keep the link through the login redirect.
+    useEffect(() => {
+        if (!user || !pendingLink || isRestoringLink.current) return;
+        isRestoringLink.current = true;
+
+        const region = regionOverride || pendingLink.region || DEFAULT_REGION;
+        handleModelViewSelectRef
+            .current(pendingLink.viewRole || "3d", pendingLink.viewGuid!, btoa(pendingLink.versionId!), getLinkLocation(pendingLink), region)
+            .finally(() => setPendingLink(null));
+    }, [user, pendingLink, regionOverride]);
+
+    // Select the linked element once its properties are loaded; the pages after it may still be streaming.
+    useEffect(() => {
+        if (pendingObjectId.current === null || properties.length === 0) return;
+        const object = properties.find((item) => item.objectid === pendingObjectId.current);
+        if (!object && loadProgress) return;
+        pendingObjectId.current = null;
+        if (object) {
+            setSelectedObject(object);
+            setShowSidebar(true);
+        }
+    }, [properties, loadProgress]);
+
+    /**
+     * handleCompareVersion - Compares the open model view with the same view in another version of the item.
+     * It polls the API until both versions' properties are ready or times out.
+     */
+    const handleCompareVersion = async (baseVersionUrn: string) => {
+        if (!selectedVersionId || !selectedViewGuid) {
+            setError("Open a model view before choosing a version to compare it with.");
+            return;
+        }
+
+        // Both URNs encode version IDs such as "urn:...:vf.abc?version=3"; the part before "?" identifies the item.
+        const headVersionUrn = selectedVersionId.replace("%2F", "/");
+        if (headVersionUrn === baseVersionUrn) {
+            setError("Choose a different version of the open model to compare with.");
+            return;
+        }
+        if (atob(headVersionUrn).split("?")[0] !== atob(baseVersionUrn).split("?")[0]) {
+            setError("Only versions of the open model's item can be compared.");
+            return;
+        }
+
+        setComparing(true);
+        setError(null);
+
+        const maxAttempts = 150;
+        let attempts = 0;
+
+        try {
+            while (attempts < maxAttempts) {
+                const res = await fetch(
+                    `/api/modelDerivate/${viewRegion}/${selectedVersionId}/views/${selectedViewGuid}/diff?base=${encodeURIComponent(baseVersionUrn)}`
+                );
+
+                if (!res.ok) {
+                    throw new Error(`Failed to compare versions (${res.status}: ${res.statusText})`);
+                }
+
+                const data: VersionDiff = await res.json();
+
+                // Once both versions are processed, show the comparison.
+                if (!data.isProcessing) {
+                    setVersionDiff(data);
+                    setSelectedDiff(selectedObject ? data.added.concat(data.modified).find((element) => element.objectid === selectedObject.objectid) || null : null);
+                    return;
+                }
+
+                // Wait for 1 second before next attempt.
+                await new Promise((resolve) => setTimeout(resolve, 1000));
+                attempts++;
+            }
+
+            // If the loop completes without success, throw a timeout error.
+            throw new Error("Timeout: The compared version is taking too long to load. Please try again later.");
+        } catch (error) {
+            console.error("Error comparing versions:", error);
+            setError(error instanceof Error ? error.message : "An unexpected error occurred");
+        } finally {
+            setComparing(false);
+        }
+    };
+
+    /**
+     * handleExport - Exports the currently filtered and sorted elements as a CSV or XLSX file.
+     * The file is generated on the server; only the object IDs, and the table's columns and sort, are sent from the browser.
+     */
+    const handleExport = async (format: "csv" | "xlsx") => {
+        if (!selectedVersionId || !selectedViewGuid) return;
+
+        const exportUrl = `/api/modelDerivate/${viewRegion}/${selectedVersionId}/views/${selectedViewGuid}/export`;
+        // The table view exports its columns in its sort order; the list view exports every column.
+        const tableSelection =
+            viewType === "table"
+                ? { columns: tableLayout.columns, sortKey: tableLayout.sortKey, sortDirection: tableLayout.sortDirection }
+                : {};
+
+        setExporting(true);
+        try {
+            const res = await fetch(`${exportUrl}?format=${format}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ objectIds: filteredSortedData.map((item) => item.objectid), ...tableSelection }),
+            });
+
+            if (!res.ok) {
+                throw new Error(`Failed to export properties (${res.status}: ${res.statusText})`);
+            }
+            const { ticket } = await res.json();
+
+            // Download the file in a hidden frame, so the browser streams it to disk instead of holding it in memory.
+            // Files are saved without loading the frame; an error response loads it, and its message is shown.
+            const frame = document.createElement("iframe");
+            frame.hidden = true;
+            frame.onload = () => {
+                let message = "Failed to export properties";
+                try {
+                    message = JSON.parse(frame.contentDocument?.body.textContent || "{}").error || message;
+                } catch {
+                    // The response was not the route's JSON error; the generic message is shown.
+                }
+                setError(message);
+                frame.remove();
+            };
+            frame.src = `${exportUrl}?ticket=${encodeURIComponent(ticket)}`;
+            document.body.appendChild(frame);
+            setTimeout(() => frame.remove(), EXPORT_FRAME_LIFETIME);
+        } catch (error) {
+            console.error("Error exporting properties:", error);
+            setError(error instanceof Error ? error.message : "An unexpected error occurred");
+        } finally {
+            setExporting(false);
+        }
+    };
+
     return (
         <div className="flex flex-col h-screen">
             {/* Header */}
@@ -182,13 +648,28 @@ export default function Home() {
 
                     <div className="flex flex-wrap items-center gap-4 justify-center lg:justify-end">
                         <ThemeToggle />
+                        <div className="flex items-center">
+                            <Label className="text-white md:text-lg px-2">Units:</Label>
+                            <Tabs className="bg-white text-black border-2 h-10 rounded-md" value={unitSystem} onValueChange={handleUnitSystemChange}>
+                                <TabsList>
+                                    <TabsTrigger value="metric">Metric</TabsTrigger>
+                                    <TabsTrigger value="imperial">Imperial</TabsTrigger>
+                                </TabsList>
+                            </Tabs>
+                        </div>
                         <div className="flex items-center">
                             <Label className="text-white md:text-lg px-2">Region:</Label>
-                            <Tabs className="bg-white text-black border-2 h-10 rounded-md" defaultValue="US" value={region} onValueChange={handleServerChange}>
-                                <TabsList defaultValue="US">
-                                    <TabsTrigger value="US">US</TabsTrigger>
-                                    <TabsTrigger value="EMEA">EMEA</TabsTrigger>
-                                    <TabsTrigger value="AUS">AUS</TabsTrigger>
+                            <Tabs className="bg-white text-black border-2 h-10 rounded-md" defaultValue="auto" value={regionOverride || "auto"} onValueChange={handleServerChange}>
+                                <TabsList defaultValue="auto">
+                                    {/* Auto reads each model from the region of its hub; the others override it. */}
+                                    <TabsTrigger value="auto" title="Use the region of each model's hub">
+                                        Auto
+                                    </TabsTrigger>
+                                    {DERIVATIVE_REGIONS.map((value) => (
+                                        <TabsTrigger key={value} value={value}>
+                                            {value}
+                                        </TabsTrigger>
+                                    ))}
                                 </TabsList>
                             </Tabs>
                         </div>
@@ -224,7 +705,16 @@ export default function Home() {
                     {/* Sidebar Panel */}
                     <ResizablePanel defaultSize={15} minSize={5}>
                         <div className="h-full">
-                            <Sidebar region={region} onViewSelected={handleModelViewSelect} />
+                            <Sidebar
+                                regionOverride={regionOverride}
+                                onViewSelected={handleModelViewSelect}
+                                onCompareVersion={handleCompareVersion}
+                                onInspectVersion={(urn, name, region) => setInspectedVersion({ urn, name, region })}
+                                selectedVersion={selectedVersionId ? atob(selectedVersionId.replace("%2F", "/")) : null}
+                                selectedViewGuid={selectedViewGuid}
+                                initialLocation={linkLocation}
+                                userKey={user.email || user.name}
+                            />
                         </div>
                     </ResizablePanel>
                     <ResizableHandle withHandle />
@@ -241,10 +731,18 @@ export default function Home() {
                                         <TabsTrigger className="text-center" value="list">
                                             List View
                                         </TabsTrigger>
-                                        {/* Uncomment below if model viewer is needed */}
-                                        {/* <TabsTrigger className="text-center" value="model">
-        Model Viewer
-      </TabsTrigger> */}
+                                        <TabsTrigger className="text-center" value="table">
+                                            Table View
+                                        </TabsTrigger>
+                                        <TabsTrigger className="text-center" value="parameters">
+                                            Parameters
+                                        </TabsTrigger>
+                                        <TabsTrigger className="text-center" value="checks">
+                                            Checks
+                                        </TabsTrigger>
+                                        <TabsTrigger className="text-center" value="model">
+                                            Model Viewer
+                                        </TabsTrigger>
                                     </TabsList>
                                 </Tabs>
 
@@ -255,6 +753,33 @@ export default function Home() {
                                 <div className="flex-1 flex flex-col items-center justify-center gap-4">
                                     <Spinner size="large" />
                                     <p className="text-gray-600 dark:text-gray-300">Revit Model parameters are being fetched from ACC. Please wait...</p>
+                                    {translationStatus && (
+                                        <div className="w-64 flex flex-col items-center gap-1">
+                                            <div className="w-full h-2 rounded bg-gray-200 dark:bg-slate-700">
+                                                <div
+                                                    className={`h-full rounded bg-blue-500 ${translationStatus.state === "extracting" ? "animate-pulse" : ""}`}
+                                                    style={{ width: `${translationStatus.progress}%` }}
+                                                />
+                                            </div>
+                                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                                {translationStatus.state === "translating"
+                                                    ? `Translating the model: ${translationStatus.progress}%`
+                                                    : translationStatus.state === "extracting"
+                                                    ? "Extracting the property database..."
+                                                    : "Model processed"}
+                                            </p>
+                                        </div>
+                                    )}
+                                    {loadProgress?.stage === "paging" && loadProgress.total > 0 && (
+                                        <div className="w-64 flex flex-col items-center gap-1">
+                                            <div className="w-full h-2 rounded bg-gray-200 dark:bg-slate-700">
+                                                <div className="h-full rounded bg-blue-500" style={{ width: `${Math.round((loadProgress.loaded / loadProgress.total) * 100)}%` }} />
+                                            </div>
+                                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                                {loadProgress.loaded.toLocaleString()} of {loadProgress.total.toLocaleString()} objects queried from APS in pages
+                                            </p>
+                                        </div>
+                                    )}
                                 </div>
                             ) : error ? (
                                 <div className="flex-1 flex flex-col items-center justify-center gap-4">
@@ -268,26 +793,43 @@ export default function Home() {
                                 </div>
                             ) : (
                                 <div className="p-4 space-y-4 flex-1 flex flex-col">
+                                    {/* Elements still streaming in */}
+                                    {loadProgress?.stage === "download" && (
+                                        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                                            <Spinner size="small" />
+                                            Loading elements: {loadProgress.loaded.toLocaleString()} of {loadProgress.total.toLocaleString()}
+                                        </div>
+                                    )}
+
+                                    {/* Version comparison summary */}
+                                    {isComparing ? (
+                                        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                                            <Spinner size="small" />
+                                            Comparing versions...
+                                        </div>
+                                    ) : versionDiff ? (
+                                        <VersionDiffPanel
+                                            diff={versionDiff}
+                                            showChangesOnly={showChangesOnly}
+                                            onShowChangesOnlyChange={setShowChangesOnly}
+                                            onSelectRemoved={handleRemovedSelect}
+                                            onClose={() => {
+                                                setVersionDiff(null);
+                                                setShowChangesOnly(false);
+                                                setSelectedDiff(null);
+                                            }}
+                                        />
+                                    ) : null}
+
                                     {/* Search bar and sort options for Tree and List views */}
                                     {viewType !== "model" ? (
-                                        <div className="flex flex-col sm:flex-row gap-4">
+                                        <div className="flex flex-col sm:flex-row sm:items-start gap-4">
                                             {viewType === "tree" && (
                                                 <Button onClick={() => setExpandAll(true)} className="px-4 mr-2 h-10 text-muted">
                                                     Expand All
                                                 </Button>
                                             )}
-                                            <div className="relative flex-grow">
-                                                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                                                    <Search className="h-5 w-5 text-gray-400" />
-                                                </div>
-                                                <input
-                                                    type="text"
-                                                    placeholder="Search by name or ID..."
-                                                    value={searchQuery}
-                                                    onChange={(e) => setSearchQuery(e.target.value)}
-                                                    className="pl-10 pr-3 py-2 border rounded w-full dark:bg-slate-800 dark:text-white dark:border-slate-600"
-                                                />
-                                            </div>
+                                            <QueryInput value={searchQuery} onChange={setSearchQuery} error={parsedQuery.error} columns={propertyColumns} />
                                             {viewType === "list" && (
                                                 <select
                                                     value={sortKey}
@@ -298,33 +840,119 @@ export default function Home() {
                                                     <option value="objectid">Sort by ID (ascending)</option>
                                                 </select>
                                             )}
-                                            
+                                            {(viewType === "list" || viewType === "table") && (
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        onClick={() => handleExport("csv")}
+                                                        disabled={isExporting || !selectedViewGuid || filteredSortedData.length === 0}
+                                                        className="h-10"
+                                                    >
+                                                        <Download />
+                                                        CSV
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        onClick={() => handleExport("xlsx")}
+                                                        disabled={isExporting || !selectedViewGuid || filteredSortedData.length === 0}
+                                                        className="h-10"
+                                                    >
+                                                        <Download />
+                                                        Excel
+                                                    </Button>
+                                                </div>
+                                            )}
+                                            {parameterFilter && (
+                                                <div className="flex items-center gap-1 h-10 pl-3 pr-1 border rounded text-sm whitespace-nowrap bg-blue-50 dark:bg-slate-700 dark:text-white dark:border-slate-600">
+                                                    {parameterFilter.mode === "has" ? "Has" : "Missing"}: {parameterFilter.column.category} &gt; {parameterFilter.column.property}
+                                                    <Button variant="ghost" size="icon" onClick={() => setParameterFilter(null)} className="size-7" title="Clear parameter filter">
+                                                        <X className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            )}
                                         </div>
                                     ) : null}
 
-                                    {/* Main view area rendering Tree, List or Model Viewer */}
-                                    <div className="flex-1 overflow-y-auto border rounded dark:border-slate-700">
-                                        {viewType === "tree" ? (
-                                            <Tree data={objectTree} searchQuery={searchQuery} onSelect={handleObjectSelect} expandAll={expandAll} />
-                                        ) : viewType === "list" ? (
-                                            <PropertiesListContent data={filteredSortedData} onSelect={handleObjectSelect} />
-                                        ) : viewType === "model" ? (
-                                            <div className="h-full">
-                                                <Viewer versionId={selectedVersionId} />
+                                    <div className="flex-1 flex gap-4 min-h-0">
+                                        {/* Facet panel narrowing the tree, list and table views */}
+                                        {viewType !== "model" && properties.length > 0 && (
+                                            <div className="w-64 shrink-0">
+                                                <FacetPanel values={facetValues} selection={facetSelection} onChange={setFacetSelection} />
+                                            </div>
+                                        )}
+                                        {/* Parameter picker and legend colouring the model viewer */}
+                                        {viewType === "model" && properties.length > 0 && (
+                                            <div className="w-64 shrink-0">
+                                                <ColorByPanel columns={propertyColumns} column={colorColumn} theme={colorTheme} onChange={setColorColumn} />
                                             </div>
-                                        ) : null}
+                                        )}
+                                        {/* Main view area rendering Tree, List or Model Viewer */}
+                                        <div className="flex-1 overflow-y-auto border rounded dark:border-slate-700">
+                                            {viewType === "tree" ? (
+                                                <Tree
+                                                    data={objectTree}
+                                                    filter={treeFilter}
+                                                    highlightTerms={highlightTerms}
+                                                    changes={changesByObjectId}
+                                                    onSelect={handleObjectSelect}
+                                                    expandAll={expandAll}
+                                                    selectedId={selectedObject?.objectid ?? null}
+                                                />
+                                            ) : viewType === "list" ? (
+                                                <PropertiesListContent data={filteredSortedData} onSelect={handleObjectSelect} />
+                                            ) : viewType === "table" ? (
+                                                <PropertiesTableContent
+                                                    data={filteredSortedData}
+                                                    columns={propertyColumns}
+                                                    layout={tableLayout}
+                                                    unitSystem={unitSystem}
+                                                    onLayoutChange={handleTableLayoutChange}
+                                                    onSelect={handleObjectSelect}
+                                                />
+                                            ) : viewType === "parameters" ? (
+                                                <ParameterCatalog data={scopedElements} classifications={classifications} activeFilter={parameterFilter} onFilter={handleParameterFilter} />
+                                            ) : viewType === "checks" ? (
+                                                <ModelChecker data={scopedElements} context={queryContext} onSelect={handleObjectSelect} />
+                                            ) : viewType === "model" ? (
+                                                <div className="h-full">
+                                                    <Viewer
+                                                        versionId={selectedVersionId}
+                                                        viewGuid={selectedViewGuid}
+                                                        viewRole={selectedViewRole}
+                                                        selectedObjectId={selectedObject?.objectid ?? null}
+                                                        onSelect={handleObjectSelect}
+                                                        colorTheme={colorTheme}
+                                                    />
+                                                </div>
+                                            ) : null}
+                                        </div>
                                     </div>
                                 </div>
                             )}
                         </div>
                     </ResizablePanel>
 
-                    {/* Sidebar for property details; hidden in model view */}
-                    {showSidebar && viewType !== "model" && (
+                    {/* Manifest inspector of a version, opened from the project tree */}
+                    {inspectedVersion && (
+                        <>
+                            <ResizableHandle withHandle />
+                            <ResizablePanel defaultSize={25} minSize={20}>
+                                <ManifestInspector
+                                    region={inspectedVersion.region}
+                                    versionUrn={inspectedVersion.urn}
+                                    versionName={inspectedVersion.name}
+                                    onClose={() => setInspectedVersion(null)}
+                                />
+                            </ResizablePanel>
+                        </>
+                    )}
+
+                    {/* Sidebar for property details, alongside every view; hidden while inspecting a version */}
+                    {!inspectedVersion && showSidebar && (
                         <>
                             <ResizableHandle withHandle />
                             <ResizablePanel defaultSize={25} minSize={20}>
-                                <PropertySidebar object={selectedObject} onClose={() => setShowSidebar(false)} />
+                                <PropertySidebar object={selectedObject} unitSystem={unitSystem} diff={selectedDiff} onClose={() => setShowSidebar(false)} />
                             </ResizablePanel>
                         </>
                     )}
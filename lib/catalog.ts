@@ -0,0 +1,85 @@
+// lib/catalog.ts
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { ObjectTreeData } from "@/types";
+import { ElementClassification } from "@/lib/facets";
+import { formatPropertyValue, getPropertyColumnKey, getPropertyValue, PropertyColumn } from "@/lib/properties";
+
+/**
+ * ParameterStats - Usage statistics of one parameter across a set of elements.
+ */
+export interface ParameterStats extends PropertyColumn {
+  // Revit categories of the elements that have the parameter.
+  revitCategories: string[];
+  // Elements that have the parameter, blank or not.
+  count: number;
+  // Elements that have the parameter without a value.
+  blank: number;
+  // Distinct non-blank values.
+  distinct: number;
+}
+
+/**
+ * ParameterFilter - Narrows the views to elements that have, or are missing, a parameter value.
+ */
+export interface ParameterFilter {
+  column: PropertyColumn;
+  mode: "has" | "missing";
+}
+
+/**
+ * buildParameterCatalog - Walks every property group of the given elements and collects
+ * usage statistics for each parameter.
+ *
+ * @param items - The elements to inspect.
+ * @param classifications - The Revit classification of each element, used to list categories.
+ * @returns One entry per parameter, sorted by property group and name.
+ */
+export const buildParameterCatalog = (items: PropertiesDataCollection[], classifications: Map<number, ElementClassification>): ParameterStats[] => {
+  const catalog = new Map<string, ParameterStats & { categorySet: Set<string>; values: Set<string> }>();
+
+  items.forEach((item) => {
+    const revitCategory = classifications.get(item.objectid)?.category;
+
+    Object.entries(item.properties || {}).forEach(([category, props]) => {
+      Object.entries(props || {}).forEach(([property, value]) => {
+        const key = getPropertyColumnKey({ category, property });
+        let stats = catalog.get(key);
+        if (!stats) {
+          stats = { category, property, revitCategories: [], count: 0, blank: 0, distinct: 0, categorySet: new Set(), values: new Set() };
+          catalog.set(key, stats);
+        }
+
+        stats.count++;
+        if (revitCategory) stats.categorySet.add(revitCategory);
+
+        const text = formatPropertyValue(value).trim();
+        if (text === "") {
+          stats.blank++;
+        } else {
+          stats.values.add(text);
+        }
+      });
+    });
+  });
+
+  return [...catalog.values()]
+    .map(({ categorySet, values, ...stats }) => ({
+      ...stats,
+      revitCategories: [...categorySet].sort((a, b) => a.localeCompare(b)),
+      distinct: values.size,
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category) || a.property.localeCompare(b.property));
+};
+
+/**
+ * matchesParameterFilter - Tests whether an element has a non-blank value for the filtered
+ * parameter ("has"), or lacks the parameter or its value ("missing").
+ *
+ * @param item - The element to test.
+ * @param filter - The parameter filter.
+ * @returns True if the element matches.
+ */
+export const matchesParameterFilter = (item: PropertiesDataCollection | ObjectTreeData, filter: ParameterFilter): boolean => {
+  const hasValue = formatPropertyValue(getPropertyValue(item as PropertiesDataCollection, filter.column)).trim() !== "";
+  return filter.mode === "has" ? hasValue : !hasValue;
+};
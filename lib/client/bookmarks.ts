@@ -0,0 +1,90 @@
+// lib/client/bookmarks.ts
+import { TreeLocation } from "@/types";
+
+/**
+ * Bookmark - A node of the project tree kept in the recent or favourite models, with what is
+ * needed to show it without navigating the tree.
+ */
+export interface Bookmark {
+  // ID of the node in the project tree.
+  nodeId: string;
+  type: "item" | "version" | "view";
+  name: string;
+  // Names of the node's ancestors from the hub down, for display.
+  path: string[];
+  // IDs of the node's ancestors from the hub down, expanded to reveal the node.
+  ancestorIds: string[];
+  // For views: what is needed to open the view directly.
+  view?: {
+    role: string;
+    guid: string;
+    versionUrn: string;
+    location: TreeLocation | null;
+    // Model Derivative region of the view's hub.
+    region: string;
+  };
+}
+
+// Number of recently opened views kept.
+export const MAX_RECENT_VIEWS = 10;
+
+/**
+ * getBookmarkStorageKey - Returns the localStorage key of a user's recent or favourite models.
+ *
+ * @param list - The list to store.
+ * @param user - Identifies the signed-in user, e.g. their email address.
+ * @returns The key, so users sharing a browser keep separate lists.
+ */
+export const getBookmarkStorageKey = (list: "recentViews" | "favourites", user: string): string => {
+  return `${list}:${user}`;
+};
+
+/**
+ * loadBookmarks - Reads a list of bookmarks from localStorage.
+ *
+ * @param key - The storage key.
+ * @returns The bookmarks, or an empty list if none are stored or the stored value is invalid.
+ */
+export const loadBookmarks = (key: string): Bookmark[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error("Invalid stored bookmarks:", error);
+    return [];
+  }
+};
+
+/**
+ * saveBookmarks - Writes a list of bookmarks to localStorage.
+ *
+ * @param key - The storage key.
+ * @param bookmarks - The bookmarks to store.
+ */
+export const saveBookmarks = (key: string, bookmarks: Bookmark[]): void => {
+  localStorage.setItem(key, JSON.stringify(bookmarks));
+};
+
+/**
+ * addRecentView - Moves an opened view to the top of the recent views.
+ *
+ * @param recents - The recent views, most recent first.
+ * @param bookmark - The opened view.
+ * @returns The updated list, capped at MAX_RECENT_VIEWS.
+ */
+export const addRecentView = (recents: Bookmark[], bookmark: Bookmark): Bookmark[] => {
+  return [bookmark, ...recents.filter((recent) => recent.nodeId !== bookmark.nodeId)].slice(0, MAX_RECENT_VIEWS);
+};
+
+/**
+ * toggleFavourite - Adds a node to the favourites, or removes it if it is already one.
+ *
+ * @param favourites - The favourites.
+ * @param bookmark - The node to toggle.
+ * @returns The updated list; new favourites are appended.
+ */
+export const toggleFavourite = (favourites: Bookmark[], bookmark: Bookmark): Bookmark[] => {
+  return favourites.some((favourite) => favourite.nodeId === bookmark.nodeId)
+    ? favourites.filter((favourite) => favourite.nodeId !== bookmark.nodeId)
+    : [...favourites, bookmark];
+};
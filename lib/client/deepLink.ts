@@ -0,0 +1,87 @@
+// lib/client/deepLink.ts
+import { TreeLocation } from "@/types";
+
+/**
+ * DeepLink - The state of the explorer encoded in the page URL, so a reload or a shared link
+ * reopens the same model, view and element.
+ */
+export interface DeepLink {
+  region?: string;
+  hubId?: string;
+  projectId?: string;
+  // Folders from the project's top folder down to the item's folder.
+  folderIds: string[];
+  itemId?: string;
+  // Version ID (URN) as returned by the Data Management API, not base64-encoded.
+  versionId?: string;
+  viewGuid?: string;
+  viewRole?: string;
+  objectId?: number;
+  viewType?: string;
+  query?: string;
+}
+
+/**
+ * parseDeepLink - Reads the explorer state from a URL query string.
+ *
+ * @param search - The query string, e.g. window.location.search.
+ * @returns The link; missing or malformed parameters are left undefined.
+ */
+export const parseDeepLink = (search: string): DeepLink => {
+  const params = new URLSearchParams(search);
+  const get = (name: string) => params.get(name) || undefined;
+  const objectId = parseInt(params.get("object") || "");
+
+  return {
+    region: get("region"),
+    hubId: get("hub"),
+    projectId: get("project"),
+    folderIds: (params.get("folders") || "").split(",").filter(Boolean),
+    itemId: get("item"),
+    versionId: get("version"),
+    viewGuid: get("view"),
+    viewRole: get("role"),
+    objectId: isNaN(objectId) ? undefined : objectId,
+    viewType: get("tab"),
+    query: get("q"),
+  };
+};
+
+/**
+ * buildDeepLinkSearch - Encodes the explorer state as a URL query string.
+ *
+ * @param link - The state to encode; empty values are left out.
+ * @returns The query string, starting with "?" unless it is empty.
+ */
+export const buildDeepLinkSearch = (link: DeepLink): string => {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") params.set(name, String(value));
+  };
+
+  set("region", link.region);
+  set("hub", link.hubId);
+  set("project", link.projectId);
+  set("folders", link.folderIds.join(","));
+  set("item", link.itemId);
+  set("version", link.versionId);
+  set("view", link.viewGuid);
+  set("role", link.viewRole);
+  set("object", link.objectId);
+  set("tab", link.viewType);
+  set("q", link.query);
+
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+/**
+ * getLinkLocation - Returns the position of the linked version in the project tree.
+ *
+ * @param link - The parsed link.
+ * @returns The location, or null if the link does not identify a complete path.
+ */
+export const getLinkLocation = (link: DeepLink): TreeLocation | null => {
+  if (!link.hubId || !link.projectId || !link.itemId || !link.versionId) return null;
+  return { hubId: link.hubId, projectId: link.projectId, folderIds: link.folderIds, itemId: link.itemId, versionId: link.versionId };
+};
@@ -0,0 +1,42 @@
+// lib/client/stream.ts
+
+/**
+ * readNdjson - Reads a newline-delimited JSON response line by line.
+ *
+ * Each line is parsed and handed to the callback as soon as it arrives, so large payloads
+ * are never buffered or parsed as a single string.
+ *
+ * @param response - The fetch response with an NDJSON body.
+ * @param onMessage - Called with every parsed line, in order.
+ * @returns A Promise that resolves once the whole body has been read, or rejects with the first error
+ *          thrown by the callback.
+ */
+export async function readNdjson<T>(response: Response, onMessage: (message: T) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error("The response has no body to read");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Hand over every complete line and keep the incomplete remainder for the next chunk.
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop()!;
+      lines.forEach((line) => {
+        if (line.trim()) onMessage(JSON.parse(line));
+      });
+
+      if (done) return;
+    }
+  } catch (error) {
+    // Stop the download when a line cannot be parsed or the callback rejects it.
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
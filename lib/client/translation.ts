@@ -0,0 +1,36 @@
+// lib/client/translation.ts
+import { TranslationStatus } from "@/types";
+
+/**
+ * waitForTranslation - Follows the translation status stream of a model view until it is ready.
+ *
+ * @param url - The URL of the status event stream.
+ * @param onStatus - Called with every status change, to report progress.
+ * @returns A Promise that resolves with the final status once the view is ready, or rejects when the
+ *          translation fails or the connection is lost.
+ */
+export function waitForTranslation(url: string, onStatus: (status: TranslationStatus) => void): Promise<TranslationStatus> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(url);
+
+    source.addEventListener("status", (event) => {
+      const status: TranslationStatus = JSON.parse((event as MessageEvent<string>).data);
+      onStatus(status);
+
+      if (status.state === "ready") {
+        source.close();
+        resolve(status);
+      } else if (status.state === "failed") {
+        source.close();
+        const errors = status.messages.filter((message) => message.type === "error").map((message) => message.message);
+        reject(new Error(errors.length > 0 ? `The model could not be processed: ${errors.join(" ")}` : "The model could not be processed."));
+      }
+    });
+
+    // EventSource reconnects on its own; the server ends the stream only after a final state, so any error is fatal.
+    source.onerror = () => {
+      source.close();
+      reject(new Error("Lost the connection while waiting for the model to be processed. Please try again."));
+    };
+  });
+}
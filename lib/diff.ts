@@ -0,0 +1,82 @@
+// lib/diff.ts
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { ElementDiff, ParameterChange, VersionDiff } from "@/types";
+import { collectPropertyColumns, formatPropertyValue, getPropertyValue } from "@/lib/properties";
+
+/**
+ * listParameters - Lists every parameter of an element as a change from or to nothing.
+ */
+const listParameters = (item: PropertiesDataCollection, side: "oldValue" | "newValue"): ParameterChange[] => {
+  return collectPropertyColumns([item]).map((column) => ({ ...column, [side]: getPropertyValue(item, column) }));
+};
+
+/**
+ * diffElement - Lists the parameters whose value differs between two versions of an element.
+ */
+const diffElement = (base: PropertiesDataCollection, head: PropertiesDataCollection): ParameterChange[] => {
+  return collectPropertyColumns([base, head])
+    .map((column) => ({ ...column, oldValue: getPropertyValue(base, column), newValue: getPropertyValue(head, column) }))
+    .filter((change) => formatPropertyValue(change.oldValue) !== formatPropertyValue(change.newValue));
+};
+
+/**
+ * diffProperties - Compares the properties of two versions of a model.
+ *
+ * Elements are matched by externalId (the Revit UniqueId), because objectids are reassigned
+ * on every translation. Elements without an externalId cannot be matched and are ignored.
+ * Added and removed elements list all of their parameters as changes.
+ *
+ * @param base - The properties of the older version.
+ * @param head - The properties of the newer version.
+ * @returns The added, removed and modified elements, with objectids from the version they exist in.
+ */
+export const diffProperties = (base: PropertiesDataCollection[], head: PropertiesDataCollection[]): VersionDiff => {
+  const baseByExternalId = new Map(base.filter((item) => item.externalId).map((item) => [item.externalId, item]));
+  const headByExternalId = new Map(head.filter((item) => item.externalId).map((item) => [item.externalId, item]));
+
+  const toElementDiff = (item: PropertiesDataCollection, status: ElementDiff["status"], changes: ParameterChange[]): ElementDiff => ({
+    externalId: item.externalId,
+    objectid: item.objectid,
+    name: item.name,
+    status,
+    changes,
+  });
+
+  const diff: VersionDiff = { isProcessing: false, added: [], removed: [], modified: [] };
+
+  headByExternalId.forEach((headItem, externalId) => {
+    const baseItem = baseByExternalId.get(externalId);
+    if (!baseItem) {
+      diff.added.push(toElementDiff(headItem, "added", listParameters(headItem, "newValue")));
+      return;
+    }
+
+    const changes = diffElement(baseItem, headItem);
+    if (changes.length > 0 || baseItem.name !== headItem.name) {
+      diff.modified.push(toElementDiff(headItem, "modified", changes));
+    }
+  });
+
+  baseByExternalId.forEach((baseItem, externalId) => {
+    if (!headByExternalId.has(externalId)) {
+      diff.removed.push(toElementDiff(baseItem, "removed", listParameters(baseItem, "oldValue")));
+    }
+  });
+
+  return diff;
+};
+
+/**
+ * toPropertiesData - Rebuilds an element from the old values of a removed element's diff,
+ * so it can be shown in the property sidebar.
+ *
+ * @param element - The diff of a removed element.
+ * @returns The element as it was in the older version.
+ */
+export const toPropertiesData = (element: ElementDiff): PropertiesDataCollection => {
+  const properties: { [key: string]: { [key: string]: unknown } } = {};
+  element.changes.forEach((change) => {
+    properties[change.category] = { ...properties[change.category], [change.property]: change.oldValue };
+  });
+  return { objectid: element.objectid, name: element.name, externalId: element.externalId, properties };
+};
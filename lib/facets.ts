@@ -0,0 +1,154 @@
+// lib/facets.ts
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { ObjectTreeData } from "@/types";
+import { formatPropertyValue } from "@/lib/properties";
+
+export type FacetKey = "category" | "family" | "type";
+
+export const FACET_KEYS: FacetKey[] = ["category", "family", "type"];
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  category: "Category",
+  family: "Family",
+  type: "Type",
+};
+
+/**
+ * ElementClassification - The Revit category, family and type of an element.
+ */
+export type ElementClassification = Partial<Record<FacetKey, string>>;
+
+/**
+ * FacetSelection - The ticked values of each facet. An empty list means the facet is not applied.
+ */
+export type FacetSelection = Record<FacetKey, string[]>;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export const EMPTY_FACET_SELECTION: FacetSelection = { category: [], family: [], type: [] };
+
+// Parameter names that carry the classification when the object tree does not.
+const CLASSIFICATION_PROPERTIES: Record<FacetKey, string[]> = {
+  category: ["Category"],
+  family: ["Family", "Family Name"],
+  type: ["Type Name", "Type"],
+};
+
+/**
+ * findProperty - Returns the first non-blank value of any of the given parameter names.
+ */
+const findProperty = (item: PropertiesDataCollection, names: string[]): string | undefined => {
+  const groups = Object.values(item.properties || {}) as Record<string, unknown>[];
+  for (const name of names) {
+    for (const group of groups) {
+      const value = formatPropertyValue(group?.[name]).trim();
+      if (value) return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * classifyElements - Determines the category, family and type of every element.
+ *
+ * Revit object trees are organised as Model > Category > Family > Type > Instance, so the
+ * classification is read from an element's ancestors first. Elements missing from the tree
+ * fall back to their Category, Family and Type parameters. Only leaf elements (instances)
+ * are returned, so that category, family and type nodes are not counted as elements.
+ *
+ * @param properties - The element properties held by the page.
+ * @param objectTree - The root nodes of the object tree.
+ * @returns A Map from objectid to classification.
+ */
+export const classifyElements = (properties: PropertiesDataCollection[], objectTree: ObjectTreeData[]): Map<number, ElementClassification> => {
+  const fromTree = new Map<number, ElementClassification>();
+  const groupNodes = new Set<number>();
+
+  const visit = (node: ObjectTreeData, path: string[]) => {
+    const children = node.objects || [];
+    if (children.length > 0) {
+      groupNodes.add(node.objectid);
+      children.forEach((child) => visit(child as ObjectTreeData, [...path, child.name]));
+    } else {
+      fromTree.set(node.objectid, { category: path[0], family: path[1], type: path[2] });
+    }
+  };
+  objectTree.forEach((root) => root.objects?.forEach((child) => visit(child as ObjectTreeData, [child.name])));
+
+  const classifications = new Map<number, ElementClassification>();
+  properties.forEach((item) => {
+    if (groupNodes.has(item.objectid)) return;
+
+    const treeClassification = fromTree.get(item.objectid) || {};
+    const classification: ElementClassification = {};
+    FACET_KEYS.forEach((key) => {
+      const value = treeClassification[key] || findProperty(item, CLASSIFICATION_PROPERTIES[key]);
+      if (value) classification[key] = value;
+    });
+    classifications.set(item.objectid, classification);
+  });
+
+  return classifications;
+};
+
+/**
+ * matchesFacets - Tests an element against the facet selection, optionally ignoring one facet.
+ *
+ * @param classification - The element's classification, if known.
+ * @param selection - The ticked facet values.
+ * @param ignore - A facet to leave out, used when counting that facet's own values.
+ * @returns True if the element matches every applied facet.
+ */
+export const matchesFacets = (classification: ElementClassification | undefined, selection: FacetSelection, ignore?: FacetKey): boolean => {
+  return FACET_KEYS.every((key) => {
+    if (key === ignore || selection[key].length === 0) return true;
+    const value = classification?.[key];
+    return value !== undefined && selection[key].includes(value);
+  });
+};
+
+/**
+ * isFacetSelectionEmpty - Returns true when no facet value is ticked.
+ */
+export const isFacetSelectionEmpty = (selection: FacetSelection): boolean => {
+  return FACET_KEYS.every((key) => selection[key].length === 0);
+};
+
+/**
+ * computeFacetValues - Lists every distinct value of each facet with its element count.
+ *
+ * Each facet is counted over the elements matching every other facet, so ticking several
+ * values of the same facet keeps the remaining values and their counts visible.
+ * Ticked values are always listed, even when their count has dropped to zero.
+ *
+ * @param items - The elements to count, usually already narrowed by the search query.
+ * @param classifications - The classification of every element.
+ * @param selection - The ticked facet values.
+ * @returns The values of each facet, sorted by name.
+ */
+export const computeFacetValues = (
+  items: PropertiesDataCollection[],
+  classifications: Map<number, ElementClassification>,
+  selection: FacetSelection
+): Record<FacetKey, FacetValue[]> => {
+  const result = {} as Record<FacetKey, FacetValue[]>;
+
+  FACET_KEYS.forEach((key) => {
+    const counts = new Map<string, number>(selection[key].map((value) => [value, 0]));
+    items.forEach((item) => {
+      const classification = classifications.get(item.objectid);
+      const value = classification?.[key];
+      if (value === undefined || !matchesFacets(classification, selection, key)) return;
+      counts.set(value, (counts.get(value) || 0) + 1);
+    });
+
+    result[key] = [...counts.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => a.value.localeCompare(b.value, undefined, { numeric: true }));
+  });
+
+  return result;
+};
@@ -0,0 +1,66 @@
+// lib/manifest.ts
+import { Manifest, ManifestResources, Messages } from "@aps_sdk/model-derivative";
+import { ManifestMessage, ManifestSummary } from "@/types";
+
+// Manifest statuses after which a translation will not progress any further.
+export const FAILED_MANIFEST_STATUSES = ["failed", "timeout"];
+
+// Manifest statuses of a translation that is still running.
+export const PENDING_MANIFEST_STATUSES = ["pending", "inprogress"];
+
+// Summary of a version that has never been translated, which has no manifest.
+export const EMPTY_MANIFEST_SUMMARY: ManifestSummary = { status: "none", progress: 0, messages: [] };
+
+/**
+ * getManifestProgress - Converts the manifest progress text, e.g. "45% complete" or "complete", to a percentage.
+ *
+ * @param manifest - The derivative manifest.
+ * @returns The progress from 0 to 100.
+ */
+export const getManifestProgress = (manifest: Pick<Manifest, "progress" | "status">): number => {
+  if (manifest.status === "success" || manifest.progress === "complete") return 100;
+  const match = /(\d+)\s*%/.exec(manifest.progress || "");
+  return match ? Math.min(100, parseInt(match[1])) : 0;
+};
+
+/**
+ * collectManifestMessages - Collects the errors, warnings and information messages logged by the
+ * derivative service anywhere in a manifest.
+ *
+ * @param manifest - The derivative manifest.
+ * @returns The distinct messages, in the order they appear.
+ */
+export const collectManifestMessages = (manifest: Manifest): ManifestMessage[] => {
+  const messages = new Map<string, ManifestMessage>();
+
+  const addMessages = (entries: Messages[] | undefined) => {
+    entries?.forEach((entry) => {
+      const text = Array.isArray(entry.message) ? entry.message.join(" ") : entry.message || "";
+      const message = { type: entry.type || "info", code: entry.code || "", message: text };
+      messages.set(JSON.stringify(message), message);
+    });
+  };
+  const visit = (resources: ManifestResources[] | undefined) => {
+    resources?.forEach((resource) => {
+      addMessages(resource.messages);
+      visit(resource.children);
+    });
+  };
+
+  manifest.derivatives?.forEach((derivative) => {
+    addMessages(derivative.messages);
+    visit(derivative.children);
+  });
+
+  return [...messages.values()];
+};
+
+/**
+ * summarizeManifest - Reduces a derivative manifest to its overall status, progress and messages.
+ *
+ * @param manifest - The derivative manifest.
+ * @returns The manifest summary.
+ */
+export const summarizeManifest = (manifest: Manifest): ManifestSummary => {
+  return { status: manifest.status, progress: getManifestProgress(manifest), messages: collectManifestMessages(manifest) };
+};
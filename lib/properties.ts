@@ -0,0 +1,163 @@
+// lib/properties.ts
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { ObjectTreeData } from "@/types";
+import { compareParsedValues, formatValueForSystem, parsePropertyValue, UnitSystem } from "@/lib/units";
+
+/**
+ * PropertyColumn - Identifies a single parameter by its property group (category) and name.
+ */
+export interface PropertyColumn {
+  category: string;
+  property: string;
+}
+
+/**
+ * getPropertyColumnKey - Builds the "category.property" key used to label a property column.
+ *
+ * @param column - The property column.
+ * @returns The column key string.
+ */
+export const getPropertyColumnKey = (column: PropertyColumn): string => {
+  return `${column.category}.${column.property}`;
+};
+
+/**
+ * collectPropertyColumns - Collects every distinct category/property pair found in the given elements.
+ *
+ * @param items - The elements to inspect.
+ * @returns The property columns, sorted by category and then by property name.
+ */
+export const collectPropertyColumns = (items: PropertiesDataCollection[]): PropertyColumn[] => {
+  const columns = new Map<string, PropertyColumn>();
+  items.forEach((item) => {
+    Object.entries(item.properties || {}).forEach(([category, props]) => {
+      Object.keys(props || {}).forEach((property) => {
+        const column = { category, property };
+        columns.set(getPropertyColumnKey(column), column);
+      });
+    });
+  });
+
+  return [...columns.values()].sort((a, b) => a.category.localeCompare(b.category) || a.property.localeCompare(b.property));
+};
+
+/**
+ * getPropertyValue - Reads the raw value of a parameter from an element.
+ *
+ * @param item - The element to read from.
+ * @param column - The category/property pair to look up.
+ * @returns The raw value, or undefined if the element does not have the parameter.
+ */
+export const getPropertyValue = (item: PropertiesDataCollection, column: PropertyColumn): unknown => {
+  const group = item.properties?.[column.category] as Record<string, unknown> | undefined;
+  return group ? group[column.property] : undefined;
+};
+
+/**
+ * formatPropertyValue - Converts a raw parameter value into display text.
+ *
+ * @param value - The raw value.
+ * @returns The value as a string; empty for missing values.
+ */
+export const formatPropertyValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * formatDisplayValue - Converts a raw parameter value into display text in the chosen unit system.
+ *
+ * @param value - The raw value.
+ * @param system - The unit system selected by the user.
+ * @returns The converted value for unit-bearing numbers, otherwise the value as reported by the model.
+ */
+export const formatDisplayValue = (value: unknown, system: UnitSystem): string => {
+  return formatValueForSystem(value, system) ?? formatPropertyValue(value);
+};
+
+/**
+ * getObjectCategoryMap - Maps every object in a Revit object tree to its Revit category.
+ *
+ * The Revit object tree is organised as Model > Category > Family > Type > Instance,
+ * so the category of an object is the name of its ancestor directly below the root.
+ *
+ * @param objectTree - The root nodes of the object tree.
+ * @returns A Map from objectid to category name.
+ */
+export const getObjectCategoryMap = (objectTree: ObjectTreeData[]): Map<number, string> => {
+  const categories = new Map<number, string>();
+
+  const visit = (node: ObjectTreeData, category: string) => {
+    categories.set(node.objectid, category);
+    node.objects?.forEach((child) => visit(child as ObjectTreeData, category));
+  };
+
+  objectTree.forEach((root) => {
+    root.objects?.forEach((child) => visit(child as ObjectTreeData, child.name));
+  });
+
+  return categories;
+};
+
+/**
+ * comparePropertyValues - Compares two raw parameter values for sorting.
+ *
+ * Numbers and values with units of the same dimension (e.g. "900 mm" and "1.2 m") are
+ * compared numerically, other values as text using natural ordering. Missing values sort last.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns A negative number, zero, or a positive number, as expected by Array.sort.
+ */
+export const comparePropertyValues = (a: unknown, b: unknown): number => {
+  const textA = formatPropertyValue(a);
+  const textB = formatPropertyValue(b);
+  if (textA === "" || textB === "") return textA === textB ? 0 : textA === "" ? 1 : -1;
+
+  const parsedA = parsePropertyValue(a);
+  const parsedB = parsePropertyValue(b);
+  const difference = parsedA && parsedB ? compareParsedValues(parsedA, parsedB) : null;
+  if (difference !== null) return difference;
+
+  return textA.localeCompare(textB, undefined, { numeric: true });
+};
+
+// Keys of the fixed name and ID columns of the table view, which can be sorted like property columns.
+export const NAME_COLUMN_KEY = "name";
+export const ID_COLUMN_KEY = "objectid";
+
+/**
+ * sortByColumn - Sorts elements the way the table view does, by name, ID or a property column.
+ * Empty values always sort last, whatever the direction.
+ *
+ * @param items - The elements to sort.
+ * @param columns - The property columns the sort key may refer to.
+ * @param sortKey - NAME_COLUMN_KEY, ID_COLUMN_KEY or the key of one of the columns.
+ * @param sortDirection - The sort direction.
+ * @returns A sorted copy of the elements; ties keep their order.
+ */
+export const sortByColumn = (
+  items: PropertiesDataCollection[],
+  columns: PropertyColumn[],
+  sortKey: string,
+  sortDirection: "asc" | "desc"
+): PropertiesDataCollection[] => {
+  const direction = sortDirection === "desc" ? -1 : 1;
+  const sortColumn = columns.find((column) => getPropertyColumnKey(column) === sortKey);
+
+  const getSortValue = (item: PropertiesDataCollection): unknown => {
+    if (sortKey === NAME_COLUMN_KEY) return item.name;
+    if (sortKey === ID_COLUMN_KEY) return item.objectid;
+    return sortColumn ? getPropertyValue(item, sortColumn) : undefined;
+  };
+
+  return [...items].sort((a, b) => {
+    const valueA = getSortValue(a);
+    const valueB = getSortValue(b);
+    const isEmptyA = formatPropertyValue(valueA) === "";
+    const isEmptyB = formatPropertyValue(valueB) === "";
+    if (isEmptyA || isEmptyB) return comparePropertyValues(valueA, valueB);
+    return direction * comparePropertyValues(valueA, valueB);
+  });
+};
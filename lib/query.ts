@@ -0,0 +1,529 @@
+// lib/query.ts
+import { PropertyColumn, formatPropertyValue } from "@/lib/properties";
+import { convertToSystem, findUnit, parsePropertyValue, toBaseValue, UnitSystem } from "@/lib/units";
+
+/**
+ * Query language for filtering elements by parameter values.
+ *
+ * Examples:
+ *   Category = "Walls" AND Dimensions.Area > 10 AND "Fire Rating" EXISTS
+ *   "Identity Data".Mark ~ "A-" OR NOT Phasing."Phase Created" = "Existing"
+ *   basic wall
+ *
+ * A field is either a single parameter name, looked up in every property group, or a
+ * group-qualified path such as Dimensions.Area. Names containing spaces or symbols are quoted.
+ * The built-in fields name, objectid, externalId and Category read the element itself.
+ * Numbers may carry a unit (Dimensions.Length >= 3 m, Width < "10' 6"""), in which case they
+ * are compared with values of the same dimension after conversion. Numbers without a unit
+ * are compared in the unit system currently selected for display.
+ * Terms without an operator fall back to a case-insensitive match on the name or object ID,
+ * so plain text keeps working as a simple search.
+ */
+
+export type ComparisonOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~";
+
+export type QueryNode =
+  | { type: "and" | "or"; left: QueryNode; right: QueryNode }
+  | { type: "not"; operand: QueryNode }
+  | { type: "compare"; field: string[]; operator: ComparisonOperator; value: string | number }
+  | { type: "exists"; field: string[] }
+  | { type: "text"; text: string };
+
+export interface QueryError {
+  message: string;
+  position: number;
+}
+
+export interface QueryParseResult {
+  query: QueryNode | null;
+  error: QueryError | null;
+}
+
+/**
+ * QueryElement - The element shape a query is evaluated against.
+ * Both PropertiesDataCollection and ObjectTreeData satisfy it.
+ */
+export interface QueryElement {
+  objectid: number;
+  name: string;
+  externalId?: string;
+  properties?: { [key: string]: object };
+}
+
+/**
+ * QueryContext - Model-level information used to resolve built-in fields.
+ */
+export interface QueryContext {
+  categories?: Map<number, string>;
+  unitSystem?: UnitSystem;
+}
+
+type TokenType = "word" | "string" | "number" | "operator" | "lparen" | "rparen" | "dot" | "and" | "or" | "not" | "exists";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Characters that end an unquoted word.
+const DELIMITERS = /[\s()=!<>~."]/;
+const OPERATORS: ComparisonOperator[] = [">=", "<=", "!=", "=", ">", "<", "~"];
+const KEYWORDS: { [key: string]: TokenType } = { and: "and", or: "or", not: "not", exists: "exists" };
+
+/**
+ * QuerySyntaxError - Raised internally by the tokenizer and parser; surfaced as a QueryError.
+ */
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+/**
+ * tokenize - Splits query text into tokens.
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", value: char, position: i });
+      i++;
+    } else if (char === ".") {
+      tokens.push({ type: "dot", value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      // Quoted strings support "" as an escaped quote.
+      let value = "";
+      let j = i + 1;
+      while (j < text.length && !(text[j] === '"' && text[j + 1] !== '"')) {
+        value += text[j];
+        j += text[j] === '"' ? 2 : 1;
+      }
+      if (j >= text.length) {
+        throw new QuerySyntaxError("Unterminated quoted string", i);
+      }
+      tokens.push({ type: "string", value, position: i });
+      i = j + 1;
+    } else if (OPERATORS.some((op) => text.startsWith(op, i))) {
+      const operator = OPERATORS.find((op) => text.startsWith(op, i))!;
+      tokens.push({ type: "operator", value: operator, position: i });
+      i += operator.length;
+    } else if (char === "!") {
+      throw new QuerySyntaxError("Unexpected '!', did you mean '!='?", i);
+    } else {
+      // Numbers are only recognised when the numeric run is not part of a longer word.
+      const number = /^-?\d+(\.\d+)?/.exec(text.slice(i));
+      if (number && (i + number[0].length >= text.length || DELIMITERS.test(text[i + number[0].length]))) {
+        tokens.push({ type: "number", value: number[0], position: i });
+        i += number[0].length;
+        continue;
+      }
+
+      let j = i;
+      while (j < text.length && !DELIMITERS.test(text[j])) j++;
+      const word = text.slice(i, j);
+      tokens.push({ type: KEYWORDS[word.toLowerCase()] || "word", value: word, position: i });
+      i = j;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parser - Recursive-descent parser for the query grammar:
+ *
+ *   or      := and ("OR" and)*
+ *   and     := not (["AND"] not)*
+ *   not     := "NOT" not | primary
+ *   primary := "(" or ")" | field operator value | field "EXISTS" | term
+ *   field   := part ("." part)*
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new QuerySyntaxError(token.type === "rparen" ? "Unmatched ')'" : `Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private endPosition(): number {
+    return this.length;
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd();
+    while (this.peek()?.type === "or") {
+      this.next();
+      left = { type: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseNot();
+    for (;;) {
+      const token = this.peek();
+      if (token?.type === "and") {
+        this.next();
+      } else if (!token || !["word", "string", "number", "not", "lparen"].includes(token.type)) {
+        break;
+      }
+      // Adjacent terms without an explicit operator are combined with AND.
+      left = { type: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): QueryNode {
+    if (this.peek()?.type === "not") {
+      this.next();
+      return { type: "not", operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+    if (!token) {
+      throw new QuerySyntaxError("Unexpected end of query", this.endPosition());
+    }
+
+    if (token.type === "lparen") {
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing?.type !== "rparen") {
+        throw new QuerySyntaxError("Expected ')'", closing ? closing.position : this.endPosition());
+      }
+      return node;
+    }
+
+    if (token.type !== "word" && token.type !== "string" && token.type !== "number") {
+      throw new QuerySyntaxError(`Unexpected '${token.value}'`, token.position);
+    }
+
+    // Read a dotted field path.
+    const field = [token.value];
+    while (this.peek()?.type === "dot") {
+      this.next();
+      const part = this.next();
+      if (!part || (part.type !== "word" && part.type !== "string" && part.type !== "number")) {
+        throw new QuerySyntaxError("Expected a property name after '.'", part ? part.position : this.endPosition());
+      }
+      field.push(part.value);
+    }
+
+    const following = this.peek();
+    if (following?.type === "operator") {
+      this.next();
+      const value = this.next();
+      if (!value || (value.type !== "word" && value.type !== "string" && value.type !== "number")) {
+        throw new QuerySyntaxError(`Expected a value after '${following.value}'`, value ? value.position : this.endPosition());
+      }
+      // A number followed by a unit, e.g. "10 m²", is kept as text and parsed with its unit.
+      const unit = this.peek();
+      if (value.type === "number" && unit?.type === "word" && findUnit(unit.value)) {
+        this.next();
+        return { type: "compare", field, operator: following.value as ComparisonOperator, value: `${value.value} ${unit.value}` };
+      }
+      return {
+        type: "compare",
+        field,
+        operator: following.value as ComparisonOperator,
+        value: value.type === "number" ? parseFloat(value.value) : value.value,
+      };
+    }
+
+    if (following?.type === "exists") {
+      this.next();
+      return { type: "exists", field };
+    }
+
+    if (field.length > 1) {
+      throw new QuerySyntaxError("Expected an operator or EXISTS after the property path", following ? following.position : this.endPosition());
+    }
+
+    return { type: "text", text: token.value };
+  }
+}
+
+/**
+ * parseQuery - Parses query text into a query tree.
+ *
+ * @param text - The query text typed by the user.
+ * @returns The parsed query (null for an empty query) and any syntax error with its position.
+ */
+export const parseQuery = (text: string): QueryParseResult => {
+  try {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) {
+      return { query: null, error: null };
+    }
+    return { query: new Parser(tokens, text.length).parse(), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { query: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * resolveField - Reads the value of a field path from an element.
+ *
+ * @param element - The element to read from.
+ * @param field - The field path, e.g. ["Identity Data", "Mark"], or a single parameter or built-in name.
+ * @param context - Model-level information for the built-in fields.
+ * @returns The raw value, or undefined if the element has no such field.
+ */
+export const resolveField = (element: QueryElement, field: string[], context: QueryContext): unknown => {
+  const properties = (element.properties || {}) as Record<string, Record<string, unknown>>;
+
+  if (field.length === 1) {
+    const name = field[0].toLowerCase();
+    if (name === "name") return element.name;
+    if (name === "objectid") return element.objectid;
+    if (name === "externalid") return element.externalId;
+    if (name === "category" && context.categories?.has(element.objectid)) return context.categories.get(element.objectid);
+
+    // Look the parameter up in every property group, preferring a non-blank value.
+    let found: unknown = undefined;
+    for (const group of Object.values(properties)) {
+      const key = Object.keys(group || {}).find((property) => property.toLowerCase() === name);
+      if (key === undefined) continue;
+      if (formatPropertyValue(group[key]).trim() !== "") return group[key];
+      if (found === undefined) found = group[key];
+    }
+    return found;
+  }
+
+  // Property names may themselves contain dots, so everything after the group is the property name.
+  const groupName = field[0].toLowerCase();
+  const propertyName = field.slice(1).join(".").toLowerCase();
+  const groupKey = Object.keys(properties).find((group) => group.toLowerCase() === groupName);
+  const group = groupKey !== undefined ? properties[groupKey] : undefined;
+  const key = Object.keys(group || {}).find((property) => property.toLowerCase() === propertyName);
+  return key !== undefined ? group![key] : undefined;
+};
+
+/**
+ * numericDifference - Compares a parameter value with a numeric query value.
+ *
+ * Values with units are compared in base units when the query value has a unit, and in the
+ * display unit of the selected system when it does not.
+ *
+ * @returns The difference, or null if the value is not numeric or has another dimension.
+ */
+const numericDifference = (actual: unknown, expected: string | number, unitSystem: UnitSystem): number | null => {
+  const actualParsed = parsePropertyValue(actual);
+  const expectedParsed = parsePropertyValue(expected);
+  if (!actualParsed || !expectedParsed) return null;
+
+  if (expectedParsed.dimension === "none") {
+    return convertToSystem(actualParsed, unitSystem).value - expectedParsed.value;
+  }
+  if (actualParsed.dimension !== expectedParsed.dimension) return null;
+  return toBaseValue(actualParsed) - toBaseValue(expectedParsed);
+};
+
+/**
+ * compareValues - Applies a comparison operator. Missing values never match.
+ */
+const compareValues = (actual: unknown, operator: ComparisonOperator, expected: string | number, unitSystem: UnitSystem): boolean => {
+  const text = formatPropertyValue(actual);
+  if (text === "") return false;
+
+  if (operator === "~") {
+    return text.toLowerCase().includes(String(expected).toLowerCase());
+  }
+
+  // Quoted values are only compared numerically when they carry a unit, e.g. "3000 mm".
+  const expectedParsed = typeof expected === "string" ? parsePropertyValue(expected) : null;
+  const isNumeric = typeof expected === "number" || (expectedParsed !== null && expectedParsed.dimension !== "none");
+
+  let difference: number;
+  if (isNumeric) {
+    const numeric = numericDifference(actual, expected, unitSystem);
+    if (numeric === null) return operator === "!=";
+    difference = numeric;
+  } else {
+    difference = text.localeCompare(expected, undefined, { numeric: true, sensitivity: "base" });
+  }
+
+  switch (operator) {
+    case "=":
+      return difference === 0;
+    case "!=":
+      return difference !== 0;
+    case ">":
+      return difference > 0;
+    case ">=":
+      return difference >= 0;
+    case "<":
+      return difference < 0;
+    case "<=":
+      return difference <= 0;
+  }
+};
+
+/**
+ * evaluateQuery - Tests whether an element matches a parsed query.
+ *
+ * @param query - The parsed query.
+ * @param element - The element to test.
+ * @param context - Model-level information for built-in fields.
+ * @returns True if the element matches.
+ */
+export const evaluateQuery = (query: QueryNode, element: QueryElement, context: QueryContext = {}): boolean => {
+  switch (query.type) {
+    case "and":
+      return evaluateQuery(query.left, element, context) && evaluateQuery(query.right, element, context);
+    case "or":
+      return evaluateQuery(query.left, element, context) || evaluateQuery(query.right, element, context);
+    case "not":
+      return !evaluateQuery(query.operand, element, context);
+    case "compare":
+      return compareValues(resolveField(element, query.field, context), query.operator, query.value, context.unitSystem || "metric");
+    case "exists":
+      // A parameter exists when it is present with a non-blank value.
+      return formatPropertyValue(resolveField(element, query.field, context)).trim() !== "";
+    case "text":
+      return element.name.toLowerCase().includes(query.text.toLowerCase()) || element.objectid.toString().includes(query.text);
+  }
+};
+
+/**
+ * getQueryTextTerms - Collects the plain text terms of a query, used to highlight matches.
+ *
+ * @param query - The parsed query, or null.
+ * @returns The text terms that are not negated.
+ */
+export const getQueryTextTerms = (query: QueryNode | null): string[] => {
+  if (!query) return [];
+  switch (query.type) {
+    case "and":
+    case "or":
+      return [...getQueryTextTerms(query.left), ...getQueryTextTerms(query.right)];
+    case "text":
+      return [query.text];
+    default:
+      return [];
+  }
+};
+
+/**
+ * quoteFieldPart - Quotes a field name when it cannot be written as a bare word.
+ */
+const quoteFieldPart = (part: string): string => {
+  return /^[^\s()=!<>~."]+$/.test(part) && !KEYWORDS[part.toLowerCase()] ? part : `"${part.replace(/"/g, '""')}"`;
+};
+
+/**
+ * formatQueryField - Formats a property column as a query field path, e.g. "Identity Data".Mark.
+ *
+ * @param column - The property column.
+ * @returns The field path as it would be typed in a query.
+ */
+export const formatQueryField = (column: PropertyColumn): string => {
+  return `${quoteFieldPart(column.category)}.${quoteFieldPart(column.property)}`;
+};
+
+/**
+ * parseQueryField - Parses a field path written as in a query, e.g. "Identity Data".Mark or Mark.
+ *
+ * @param text - The field path text.
+ * @returns The field path parts, or null if the text is not a single field path.
+ */
+export const parseQueryField = (text: string): string[] | null => {
+  try {
+    const tokens = tokenize(text);
+    const isPart = (token: Token | undefined) => token?.type === "word" || token?.type === "string" || token?.type === "number";
+    if (tokens.length % 2 === 0 || !tokens.every((token, index) => (index % 2 === 0 ? isPart(token) : token.type === "dot"))) {
+      return null;
+    }
+    return tokens.filter((_, index) => index % 2 === 0).map((token) => token.value);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return null;
+    throw error;
+  }
+};
+
+// Built-in fields offered by autocomplete.
+const BUILT_IN_FIELDS = ["name", "objectid", "externalId", "Category"];
+
+// Maximum number of autocomplete suggestions returned.
+const MAX_SUGGESTIONS = 20;
+
+/**
+ * getQuerySuggestions - Suggests property names for the field being typed at the cursor.
+ *
+ * @param text - The query text.
+ * @param cursor - The cursor position in the text.
+ * @param columns - The property columns found in the loaded model.
+ * @returns The range of text to replace and the matching field suggestions.
+ */
+export const getQuerySuggestions = (
+  text: string,
+  cursor: number,
+  columns: PropertyColumn[]
+): { start: number; end: number; suggestions: string[] } => {
+  const before = text.slice(0, cursor);
+
+  // Inside an open quote the fragment runs from the quote; otherwise it stops at the last delimiter.
+  const quoteCount = (before.match(/"/g) || []).length;
+  let start = quoteCount % 2 === 1 ? before.lastIndexOf('"') : before.search(/[^\s()=!<>~]*$/);
+  // Include a quoted group name before a dot, e.g. "Identity Data".Ma
+  const qualified = /"[^"]*"\.[^\s()=!<>~"]*$/.exec(before);
+  if (qualified && qualified.index < start) start = qualified.index;
+
+  const fragment = before.slice(start);
+  const empty = { start, end: cursor, suggestions: [] };
+
+  // Values come after an operator and are not completed.
+  if (fragment.replace(/"/g, "").trim() === "" || /(>=|<=|!=|=|>|<|~)\s*$/.test(before.slice(0, start))) {
+    return empty;
+  }
+
+  const needle = fragment.replace(/"/g, "").toLowerCase();
+  const candidates = new Set<string>(BUILT_IN_FIELDS);
+  columns.forEach((column) => {
+    candidates.add(quoteFieldPart(column.property));
+    candidates.add(formatQueryField(column));
+  });
+
+  const suggestions = [...candidates]
+    .filter((candidate) => {
+      const plain = candidate.replace(/"/g, "").toLowerCase();
+      return plain.includes(needle) && plain !== needle;
+    })
+    .sort((a, b) => {
+      // Prefer suggestions that start with the fragment, then shorter ones.
+      const startsA = a.replace(/"/g, "").toLowerCase().startsWith(needle) ? 0 : 1;
+      const startsB = b.replace(/"/g, "").toLowerCase().startsWith(needle) ? 0 : 1;
+      return startsA - startsB || a.length - b.length || a.localeCompare(b);
+    })
+    .slice(0, MAX_SUGGESTIONS);
+
+  return { start, end: cursor, suggestions };
+};
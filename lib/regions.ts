@@ -0,0 +1,21 @@
+// lib/regions.ts
+
+// Regions of the Model Derivative service, offered as manual overrides in the header.
+export const DERIVATIVE_REGIONS = ["US", "EMEA", "AUS"];
+
+// Region used when a hub does not report one the Model Derivative service supports.
+export const DEFAULT_REGION = "US";
+
+/**
+ * getDerivativeRegion - Maps the region of a hub to the Model Derivative region holding the
+ * derivatives of its files.
+ *
+ * @param hubRegion - The hub's region, as returned by the Data Management API.
+ * @returns The derivative region; hubs in other regions fall back to DEFAULT_REGION.
+ */
+export const getDerivativeRegion = (hubRegion: string): string => {
+  const region = hubRegion.toUpperCase();
+  // APAC is the former name of the Australian data centre.
+  if (region === "APAC") return "AUS";
+  return DERIVATIVE_REGIONS.includes(region) ? region : DEFAULT_REGION;
+};
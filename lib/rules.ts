@@ -0,0 +1,277 @@
+// lib/rules.ts
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { formatPropertyValue } from "@/lib/properties";
+import { evaluateQuery, parseQuery, parseQueryField, QueryContext, QueryNode, resolveField } from "@/lib/query";
+
+/**
+ * Model-checking rules.
+ *
+ * A rule set is a JSON document listing QA rules that are evaluated against the loaded
+ * properties. Every rule has an id, a name and a type; "where" optionally limits the rule to
+ * the elements matching a query written in the search box language. Parameters are written
+ * as query fields, e.g. "Identity Data.Mark", "\"Identity Data\".Mark" or just "Mark".
+ *
+ *   required - the parameter must have a value.
+ *   unique   - the parameter's value must be unique, across the model or per category ("scope").
+ *   pattern  - the parameter's value must match a regular expression ("pattern", "flags").
+ *   allowed  - the parameter's value must be one of "values".
+ *   query    - the element must match "query".
+ *
+ * Blank values only violate required rules, so that each problem is reported once.
+ */
+
+export type RuleSeverity = "error" | "warning";
+
+interface RuleBase {
+  id: string;
+  name: string;
+  description?: string;
+  severity?: RuleSeverity;
+  where?: string;
+}
+
+export type Rule = RuleBase &
+  (
+    | { type: "required"; parameter: string }
+    | { type: "unique"; parameter: string; scope?: "model" | "category" }
+    | { type: "pattern"; parameter: string; pattern: string; flags?: string }
+    | { type: "allowed"; parameter: string; values: string[] }
+    | { type: "query"; query: string; message?: string }
+  );
+
+export interface RuleSet {
+  name: string;
+  description?: string;
+  rules: Rule[];
+}
+
+export interface RuleViolation {
+  objectid: number;
+  name: string;
+  message: string;
+}
+
+export interface RuleResult {
+  rule: Rule;
+  // Number of elements the rule applied to.
+  checked: number;
+  violations: RuleViolation[];
+}
+
+export interface RuleSetParseResult {
+  ruleSet: RuleSet | null;
+  error: string | null;
+}
+
+const RULE_TYPES = ["required", "unique", "pattern", "allowed", "query"];
+
+/**
+ * EXAMPLE_RULE_SET - Rule set offered to new users as a starting point.
+ */
+export const EXAMPLE_RULE_SET: RuleSet = {
+  name: "Standard QA",
+  description: "Checks run on every model before issue.",
+  rules: [
+    { id: "mark-required", name: "Doors have a Mark", type: "required", parameter: "Identity Data.Mark", where: "Category = Doors" },
+    { id: "mark-unique", name: "Mark is unique per category", type: "unique", parameter: "Identity Data.Mark", scope: "category" },
+    {
+      id: "fire-rating-format",
+      name: "Fire Rating is written in minutes",
+      type: "pattern",
+      parameter: "Fire Rating",
+      pattern: "^\\d+ min$",
+      severity: "warning",
+    },
+  ],
+};
+
+/**
+ * RuleSetError - Raised while validating a rule set; surfaced as the parse error.
+ */
+class RuleSetError extends Error {}
+
+/**
+ * toField - Parses a rule's parameter into a field path. Paths that are not valid query syntax,
+ * such as Identity Data.Fire Rating, are split at the first dot.
+ */
+const toField = (parameter: string): string[] => {
+  const field = parseQueryField(parameter);
+  if (field) return field;
+  const dot = parameter.indexOf(".");
+  return dot > 0 ? [parameter.slice(0, dot).trim(), parameter.slice(dot + 1).trim()] : [parameter.trim()];
+};
+
+/**
+ * validateRule - Checks that a parsed JSON value is a well-formed rule.
+ */
+const validateRule = (rule: unknown, index: number): Rule => {
+  if (!rule || typeof rule !== "object") {
+    throw new RuleSetError(`Rule ${index + 1} must be an object`);
+  }
+
+  const candidate = rule as Record<string, unknown>;
+  const label = typeof candidate.id === "string" && candidate.id ? `Rule "${candidate.id}"` : `Rule ${index + 1}`;
+  const requireString = (key: string) => {
+    if (typeof candidate[key] !== "string" || !(candidate[key] as string).trim()) {
+      throw new RuleSetError(`${label} needs a "${key}"`);
+    }
+  };
+
+  requireString("id");
+  requireString("name");
+  if (!RULE_TYPES.includes(candidate.type as string)) {
+    throw new RuleSetError(`${label} has an unknown type; expected one of ${RULE_TYPES.join(", ")}`);
+  }
+  if (candidate.severity !== undefined && candidate.severity !== "error" && candidate.severity !== "warning") {
+    throw new RuleSetError(`${label} has an unknown severity; expected "error" or "warning"`);
+  }
+  if (candidate.where !== undefined) {
+    requireString("where");
+    const { error } = parseQuery(candidate.where as string);
+    if (error) throw new RuleSetError(`${label}: invalid "where" query: ${error.message} (at character ${error.position + 1})`);
+  }
+
+  if (candidate.type === "query") {
+    requireString("query");
+    const { error } = parseQuery(candidate.query as string);
+    if (error) throw new RuleSetError(`${label}: invalid query: ${error.message} (at character ${error.position + 1})`);
+  } else {
+    requireString("parameter");
+  }
+
+  if (candidate.type === "unique" && candidate.scope !== undefined && candidate.scope !== "model" && candidate.scope !== "category") {
+    throw new RuleSetError(`${label} has an unknown scope; expected "model" or "category"`);
+  }
+  if (candidate.type === "pattern") {
+    requireString("pattern");
+    try {
+      new RegExp(candidate.pattern as string, (candidate.flags as string | undefined) || "");
+    } catch (error) {
+      throw new RuleSetError(`${label}: invalid pattern: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (candidate.type === "allowed" && (!Array.isArray(candidate.values) || candidate.values.length === 0)) {
+    throw new RuleSetError(`${label} needs a non-empty "values" list`);
+  }
+
+  return candidate as unknown as Rule;
+};
+
+/**
+ * parseRuleSet - Parses and validates a rule set written as JSON.
+ *
+ * @param text - The rule set JSON.
+ * @returns The rule set, or null with a message describing the first problem found.
+ */
+export const parseRuleSet = (text: string): RuleSetParseResult => {
+  try {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new RuleSetError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new RuleSetError("A rule set must be an object with a name and a list of rules");
+    }
+    const candidate = json as Record<string, unknown>;
+    if (typeof candidate.name !== "string" || !candidate.name.trim()) {
+      throw new RuleSetError('The rule set needs a "name"');
+    }
+    if (!Array.isArray(candidate.rules)) {
+      throw new RuleSetError('The rule set needs a "rules" list');
+    }
+
+    const rules = candidate.rules.map(validateRule);
+    const ids = new Set<string>();
+    rules.forEach((rule) => {
+      if (ids.has(rule.id)) throw new RuleSetError(`Rule id "${rule.id}" is used more than once`);
+      ids.add(rule.id);
+    });
+
+    return { ruleSet: { ...(candidate as unknown as RuleSet), rules }, error: null };
+  } catch (error) {
+    if (error instanceof RuleSetError) {
+      return { ruleSet: null, error: error.message };
+    }
+    throw error;
+  }
+};
+
+/**
+ * evaluateRule - Runs a single rule over the elements it applies to.
+ */
+const evaluateRule = (rule: Rule, items: PropertiesDataCollection[], context: QueryContext): RuleResult => {
+  const where: QueryNode | null = rule.where ? parseQuery(rule.where).query : null;
+  const scoped = where ? items.filter((item) => evaluateQuery(where, item, context)) : items;
+  const violations: RuleViolation[] = [];
+  const violation = (item: PropertiesDataCollection, message: string) => violations.push({ objectid: item.objectid, name: item.name, message });
+
+  if (rule.type === "query") {
+    const query = parseQuery(rule.query).query;
+    scoped.forEach((item) => {
+      if (query && !evaluateQuery(query, item, context)) violation(item, rule.message || `Does not match ${rule.query}`);
+    });
+    return { rule, checked: scoped.length, violations };
+  }
+
+  const field = toField(rule.parameter);
+  const values = scoped.map((item) => ({ item, value: formatPropertyValue(resolveField(item, field, context)).trim() }));
+
+  switch (rule.type) {
+    case "required":
+      values.forEach(({ item, value }) => {
+        if (value === "") violation(item, `${rule.parameter} is blank or missing`);
+      });
+      break;
+    case "pattern": {
+      // The g and y flags make test() resume from the previous match, so one element would affect the next.
+      const pattern = new RegExp(rule.pattern, (rule.flags || "").replace(/[gy]/g, ""));
+      values.forEach(({ item, value }) => {
+        if (value !== "" && !pattern.test(value)) violation(item, `${rule.parameter} "${value}" does not match ${rule.pattern}`);
+      });
+      break;
+    }
+    case "allowed": {
+      const allowed = new Set(rule.values.map((value) => String(value)));
+      values.forEach(({ item, value }) => {
+        if (value !== "" && !allowed.has(value)) violation(item, `${rule.parameter} "${value}" is not an allowed value`);
+      });
+      break;
+    }
+    case "unique": {
+      // Group the elements by scope and value; every element of a group larger than one is a duplicate.
+      const groups = new Map<string, PropertiesDataCollection[]>();
+      values.forEach(({ item, value }) => {
+        if (value === "") return;
+        const scope = rule.scope === "category" ? context.categories?.get(item.objectid) || "" : "";
+        const key = JSON.stringify([scope, value]);
+        const group = groups.get(key);
+        if (group) group.push(item);
+        else groups.set(key, [item]);
+      });
+      groups.forEach((group, key) => {
+        if (group.length < 2) return;
+        const [scope, value] = JSON.parse(key) as [string, string];
+        const within = scope ? ` in ${scope}` : "";
+        group.forEach((item) => violation(item, `${rule.parameter} "${value}" is shared with ${group.length - 1} other element(s)${within}`));
+      });
+      break;
+    }
+  }
+
+  return { rule, checked: scoped.length, violations };
+};
+
+/**
+ * evaluateRuleSet - Runs every rule of a rule set over the given elements.
+ *
+ * @param ruleSet - The validated rule set.
+ * @param items - The elements to check.
+ * @param context - Model-level information for the query language, e.g. each element's category.
+ * @returns One result per rule, in rule set order.
+ */
+export const evaluateRuleSet = (ruleSet: RuleSet, items: PropertiesDataCollection[], context: QueryContext): RuleResult[] => {
+  return ruleSet.rules.map((rule) => evaluateRule(rule, items, context));
+};
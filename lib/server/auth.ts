@@ -1,46 +1,58 @@
 // lib/server/auth.ts
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 import { cookies } from 'next/headers';
 import { refreshTokens } from '../services/aps';
-import { OAuthToken } from '@/types';
+import { getSession, updateSession } from './session';
+import { OAuthToken, SessionData } from '@/types';
+
+// Cookie holding the login in progress, from the login route to the callback.
+const LOGIN_COOKIE = 'oauth_login';
+
+/**
+ * LoginAttempt - A login in progress: the state nonce and PKCE code verifier sent with the
+ * authorization request, and the page to return to once signed in.
+ */
+interface LoginAttempt {
+  state: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+// Token refreshes in progress by session, so concurrent requests redeem the single-use refresh token only once.
+const pendingRefreshes = new Map<string, Promise<SessionData>>();
 
 /**
  * getAuthTokens - Retrieves and refreshes authentication tokens if necessary.
  *
- * This function reads tokens from cookies. If the stored tokens have expired,
- * it attempts to refresh them using the refresh token. Updated tokens are then
- * stored in cookies.
+ * This function reads the tokens of the current session from the server-side session store.
+ * If the stored tokens have expired, it attempts to refresh them using the refresh token.
+ * Updated tokens are then stored in the session.
  *
- * @returns An object containing internal and public tokens, or null if tokens are missing or refreshing fails.
+ * @returns An object containing internal and public tokens, or null if there is no session or refreshing fails.
  */
 export async function getAuthTokens(): Promise<{
   internalToken: OAuthToken;
   publicToken: OAuthToken;
 } | null> {
-  // Get the cookie store from Next.js headers.
-  const cookieStore = await cookies();
-  // Retrieve the refresh token and the expiration time from cookies.
-  const refreshToken = cookieStore.get('refresh_token')?.value;
-  const expiresAt = cookieStore.get('expires_at')?.value;
+  const session = await getSession();
   
-  // If either the refresh token or expires_at is missing, return null.
-  if (!refreshToken || !expiresAt) {
+  // If there is no session, or it expired, return null.
+  if (!session) {
     return null;
   }
   
-  // Parse the expires_at value to a number.
-  const expiresAtNum = parseInt(expiresAt);
-  
-  // Ensure the parsed expiration time is valid.
-  if (isNaN(expiresAtNum)) {
-    console.error('Invalid expires_at cookie value:', expiresAt);
-    return null;
-  }
+  let tokens = session.tokens;
   
   // Check if the token has expired.
-  if (expiresAtNum < Date.now()) {
+  if (tokens.expires_at < Date.now()) {
     try {
-      // Attempt to refresh tokens using the refresh token.
-      const tokens = await refreshTokens(refreshToken);
+      let refresh = pendingRefreshes.get(session.sessionId);
+      if (!refresh) {
+        // Attempt to refresh tokens using the refresh token.
+        refresh = refreshTokens(tokens.refresh_token).finally(() => pendingRefreshes.delete(session.sessionId));
+        pendingRefreshes.set(session.sessionId, refresh);
+      }
+      tokens = await refresh;
       
       // Validate the response to ensure all required token properties are available.
       if (
@@ -53,46 +65,8 @@ export async function getAuthTokens(): Promise<{
         throw new Error("Incomplete token response from refreshTokens.");
       }
       
-      // Update cookies with new tokens.
-      cookieStore.set('public_token', tokens.public_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24, // 1 day (in seconds)
-        path: '/'
-      });
-      
-      cookieStore.set('internal_token', tokens.internal_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24, // 1 day (in seconds)
-        path: '/'
-      });
-      
-      cookieStore.set('refresh_token', tokens.refresh_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24 * 7, // 7 days (in seconds)
-        path: '/'
-      });
-      
-      cookieStore.set('expires_at', tokens.expires_at.toString(), {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24, // 1 day (in seconds)
-        path: '/'
-      });
-      
-      // Return the refreshed tokens along with calculated expires_in values.
-      return {
-        internalToken: {
-          access_token: tokens.internal_token,
-          expires_in: Math.round((tokens.expires_at - Date.now()) / 1000)
-        },
-        publicToken: {
-          access_token: tokens.public_token,
-          expires_in: Math.round((tokens.expires_at - Date.now()) / 1000)
-        }
-      };
+      // Store the new tokens in the session.
+      await updateSession(session.sessionId, tokens);
     } catch (error) {
       // Log any error during the refresh process and return null.
       console.error('Error refreshing tokens:', error);
@@ -100,15 +74,94 @@ export async function getAuthTokens(): Promise<{
     }
   }
   
-  // If tokens have not expired, return them from the cookies.
+  // Return the tokens along with calculated expires_in values.
   return {
     internalToken: {
-      access_token: cookieStore.get('internal_token')!.value,
-      expires_in: Math.round((parseInt(expiresAt) - Date.now()) / 1000)
+      access_token: tokens.internal_token,
+      expires_in: Math.round((tokens.expires_at - Date.now()) / 1000)
     },
     publicToken: {
-      access_token: cookieStore.get('public_token')!.value,
-      expires_in: Math.round((parseInt(expiresAt) - Date.now()) / 1000)
+      access_token: tokens.public_token,
+      expires_in: Math.round((tokens.expires_at - Date.now()) / 1000)
     }
   };
 }
+
+/**
+ * getSafeReturnPath - Validates a path to return to after signing in.
+ *
+ * Only paths on this site are accepted, so the login flow cannot be used to redirect users to
+ * another site ("//host" and "/\host" are protocol-relative URLs in browsers).
+ *
+ * @param value - The requested path, e.g. "/?version=...".
+ * @returns The path, or "/" if it is missing or not a local path.
+ */
+export function getSafeReturnPath(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return '/';
+  }
+  return value;
+}
+
+/**
+ * startLoginAttempt - Creates the state nonce and PKCE code verifier of a new login and keeps
+ * them, with the page to return to, in a short-lived httpOnly cookie read back by the callback.
+ *
+ * @param returnTo - The requested return path; it is validated with getSafeReturnPath.
+ * @returns The state nonce and the code challenge (the SHA-256 of the verifier) to send with the authorization request.
+ */
+export async function startLoginAttempt(returnTo: string | null): Promise<{ state: string; codeChallenge: string }> {
+  const attempt: LoginAttempt = {
+    state: randomBytes(32).toString('base64url'),
+    codeVerifier: randomBytes(32).toString('base64url'),
+    returnTo: getSafeReturnPath(returnTo),
+  };
+
+  const cookieStore = await cookies();
+  cookieStore.set(LOGIN_COOKIE, JSON.stringify(attempt), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax, so the cookie is sent on the redirect back from the Autodesk login page.
+    sameSite: 'lax',
+    maxAge: 60 * 10, // 10 minutes
+    path: '/api/auth'
+  });
+
+  return { state: attempt.state, codeChallenge: createHash('sha256').update(attempt.codeVerifier).digest('base64url') };
+}
+
+/**
+ * finishLoginAttempt - Checks the state returned to the callback against the login in progress,
+ * which is consumed so that it cannot be replayed.
+ *
+ * @param state - The "state" query parameter received by the callback.
+ * @returns The code verifier and return path of the login, or an error: "expired" if no login is
+ * in progress in this browser, "state_mismatch" if the state differs.
+ */
+export async function finishLoginAttempt(
+  state: string | null
+): Promise<{ codeVerifier: string; returnTo: string } | { error: 'expired' | 'state_mismatch' }> {
+  const cookieStore = await cookies();
+  const stored = cookieStore.get(LOGIN_COOKIE)?.value;
+  cookieStore.delete({ name: LOGIN_COOKIE, path: '/api/auth' });
+
+  let attempt: LoginAttempt;
+  try {
+    attempt = stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Invalid login cookie:', error);
+    return { error: 'expired' };
+  }
+  if (!attempt?.state || !attempt.codeVerifier) {
+    return { error: 'expired' };
+  }
+
+  // Compared in constant time, so the nonce cannot be guessed from response times.
+  const expected = Buffer.from(attempt.state);
+  const received = Buffer.from(state || '');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { error: 'state_mismatch' };
+  }
+
+  return { codeVerifier: attempt.codeVerifier, returnTo: getSafeReturnPath(attempt.returnTo) };
+}
@@ -0,0 +1,208 @@
+// lib/server/cache.ts
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import { ModelDerivativeApiError, ObjectTreeDataObjects, PropertiesDataCollection, Region } from "@aps_sdk/model-derivative";
+import { getAllProperties, getAllPropertiesInPages, getManifest, getObjectTree } from "@/lib/services/aps";
+
+/**
+ * Persistent cache of model view data.
+ *
+ * Fetching the properties and object tree of a large model takes minutes, so both are stored
+ * on disk, gzipped, keyed by version URN and view GUID, and shared between users. Each entry
+ * records a fingerprint of the derivative manifest it was built from; the manifest is fetched
+ * with the caller's token on every read, which both detects re-translated derivatives and
+ * ensures the caller can access the model before cached data is returned.
+ *
+ * Property databases too large for the all-properties call are fetched page by page with the
+ * specific-properties query instead, reporting progress to the caller.
+ */
+
+// Directory holding the cache entries; configurable for deployments with a dedicated volume.
+const CACHE_DIR = process.env.PROPERTIES_CACHE_DIR || path.join(process.cwd(), ".cache", "properties");
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface ViewData {
+  isProcessing: boolean;
+  properties: PropertiesDataCollection[];
+  objectTree: ObjectTreeDataObjects[];
+}
+
+interface CacheEntry {
+  versionUrn: string;
+  viewGuid: string;
+  manifestFingerprint: string;
+  createdAt: string;
+  properties: PropertiesDataCollection[];
+  objectTree: ObjectTreeDataObjects[];
+}
+
+/**
+ * ProgressListener - Receives the number of objects fetched so far while properties are fetched in pages.
+ */
+export type ProgressListener = (loaded: number, total: number) => void;
+
+// Loads in progress, so concurrent requests for the same uncached view share one APS download and its progress.
+const pendingLoads = new Map<string, { promise: Promise<ViewData>; listeners: Set<ProgressListener> }>();
+
+/**
+ * getEntryPath - Returns the cache file of a view; URNs are hashed to keep file names safe.
+ */
+const getEntryPath = (versionUrn: string, viewGuid: string): string => {
+  const key = createHash("sha256").update(`${versionUrn}\n${viewGuid}`).digest("hex");
+  return path.join(CACHE_DIR, `${key}.json.gz`);
+};
+
+/**
+ * getManifestFingerprint - Hashes the derivative manifest, which changes whenever the version is translated again.
+ */
+const getManifestFingerprint = async (versionUrn: string, region: Region, accessToken: string): Promise<string> => {
+  const manifest = await getManifest(versionUrn, region, accessToken);
+  return createHash("sha256").update(JSON.stringify(manifest)).digest("hex");
+};
+
+/**
+ * readEntry - Reads a cache entry, or returns null if it does not exist or cannot be read.
+ */
+const readEntry = async (filePath: string): Promise<CacheEntry | null> => {
+  try {
+    const content = await gunzipAsync(await fs.readFile(filePath));
+    return JSON.parse(content.toString("utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading cache entry:", error);
+    }
+    return null;
+  }
+};
+
+/**
+ * writeEntry - Writes a cache entry through a temporary file, so readers never see a partial entry.
+ */
+const writeEntry = async (filePath: string, entry: CacheEntry): Promise<void> => {
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, await gzipAsync(JSON.stringify(entry)));
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    // A failed write only costs a cache miss next time, so the request still succeeds.
+    console.error("Error writing cache entry:", error);
+  }
+};
+
+/**
+ * shouldFetchInPages - Tells whether a failed all-properties call should be retried page by page:
+ * only when the property database is too large to be returned at once (413).
+ */
+const shouldFetchInPages = (error: unknown): boolean => {
+  if (!(error instanceof ModelDerivativeApiError)) return false;
+  return error.httpStatusCode() === 413 || /too large/i.test(error.message);
+};
+
+/**
+ * fetchViewData - Fetches the properties and object tree of a model view from APS, falling back
+ * to paged specific-properties queries when the property database is too large.
+ */
+const fetchViewData = async (versionUrn: string, viewGuid: string, region: Region, accessToken: string, onProgress: ProgressListener): Promise<ViewData> => {
+  let allProperties: { properties: PropertiesDataCollection[]; isProcessing: boolean };
+  try {
+    allProperties = await getAllProperties(versionUrn, viewGuid, region, accessToken);
+  } catch (error) {
+    if (!shouldFetchInPages(error)) throw error;
+
+    console.warn("The property database is too large to fetch at once; fetching it in pages instead.");
+    allProperties = await getAllPropertiesInPages(versionUrn, viewGuid, region, accessToken, onProgress);
+  }
+
+  if (allProperties.isProcessing) {
+    return { isProcessing: true, properties: [], objectTree: [] };
+  }
+  const objectTree = await getObjectTree(versionUrn, viewGuid, region, accessToken);
+  return { isProcessing: false, properties: allProperties.properties, objectTree };
+};
+
+/**
+ * getCachedViewData - Retrieves the properties and object tree of a model view, from the cache
+ * when the derivative manifest is unchanged, or from APS otherwise.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param viewGuid - The GUID of the model view.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @param onProgress - Called while properties are fetched in pages.
+ * @returns A Promise that resolves with the view data; only complete data is cached.
+ */
+export const getCachedViewData = async (
+  versionUrn: string,
+  viewGuid: string,
+  region: Region,
+  accessToken: string,
+  onProgress?: ProgressListener
+): Promise<ViewData> => {
+  const filePath = getEntryPath(versionUrn, viewGuid);
+  const manifestFingerprint = await getManifestFingerprint(versionUrn, region, accessToken);
+
+  const entry = await readEntry(filePath);
+  if (entry && entry.manifestFingerprint === manifestFingerprint) {
+    return { isProcessing: false, properties: entry.properties, objectTree: entry.objectTree };
+  }
+
+  const pendingKey = `${filePath}:${manifestFingerprint}`;
+  const pending = pendingLoads.get(pendingKey);
+  if (pending) {
+    if (onProgress) pending.listeners.add(onProgress);
+    try {
+      return await pending.promise;
+    } finally {
+      if (onProgress) pending.listeners.delete(onProgress);
+    }
+  }
+
+  const listeners = new Set<ProgressListener>(onProgress ? [onProgress] : []);
+  const promise = (async (): Promise<ViewData> => {
+    const viewData = await fetchViewData(versionUrn, viewGuid, region, accessToken, (loaded, total) => {
+      listeners.forEach((listener) => listener(loaded, total));
+    });
+    if (!viewData.isProcessing) {
+      await writeEntry(filePath, {
+        versionUrn,
+        viewGuid,
+        manifestFingerprint,
+        createdAt: new Date().toISOString(),
+        properties: viewData.properties,
+        objectTree: viewData.objectTree,
+      });
+    }
+    return viewData;
+  })();
+
+  pendingLoads.set(pendingKey, { promise, listeners });
+  try {
+    return await promise;
+  } finally {
+    pendingLoads.delete(pendingKey);
+  }
+};
+
+/**
+ * purgeCachedViewData - Removes the cache entry of a model view.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param viewGuid - The GUID of the model view.
+ * @returns A Promise that resolves with true if an entry was removed.
+ */
+export const purgeCachedViewData = async (versionUrn: string, viewGuid: string): Promise<boolean> => {
+  try {
+    await fs.unlink(getEntryPath(versionUrn, viewGuid));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    console.error("Error purging cache entry:", error);
+    throw error;
+  }
+};
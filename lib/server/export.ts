@@ -0,0 +1,233 @@
+// lib/server/export.ts
+import { randomBytes } from "crypto";
+import { PassThrough, Readable } from "stream";
+import ExcelJS from "exceljs";
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { collectPropertyColumns, formatPropertyValue, getPropertyColumnKey, getPropertyValue, PropertyColumn } from "@/lib/properties";
+
+// Fixed columns written before the property columns.
+const BASE_HEADERS = ["objectid", "externalId", "name"];
+
+// Number of CSV rows encoded per pull from the stream.
+const CSV_ROWS_PER_CHUNK = 500;
+
+// Time within which an export ticket must be downloaded, in milliseconds.
+const EXPORT_TICKET_TTL = 1000 * 60; // 1 minute
+
+/**
+ * ExportRequest - The elements, columns and order of an export, as shown by the client.
+ */
+export interface ExportRequest {
+  format: "csv" | "xlsx";
+  // Elements to export, in the order the client lists them; every element when null.
+  objectIds: number[] | null;
+  // Property columns to export, e.g. those of the table view; every used column when null.
+  columns: PropertyColumn[] | null;
+  // Sort applied on top of the client's order, e.g. the sort of the table view.
+  sort: { key: string; direction: "asc" | "desc" } | null;
+}
+
+/**
+ * ExportTicketScope - The session and model view an export ticket was issued for.
+ */
+export interface ExportTicketScope {
+  sessionId: string;
+  versionUrn: string;
+  viewGuid: string;
+}
+
+interface ExportTicket {
+  request: ExportRequest;
+  scope: ExportTicketScope;
+  expiresAt: number;
+}
+
+/**
+ * getExportTickets - Returns the export requests waiting to be downloaded, keyed by ticket.
+ * Kept on globalThis, so route handlers bundled separately in development share the tickets;
+ * they are not shared between server instances.
+ */
+const getExportTickets = (): Map<string, ExportTicket> => {
+  const globalStore = globalThis as typeof globalThis & { __exportTickets?: Map<string, ExportTicket> };
+  return (globalStore.__exportTickets ??= new Map<string, ExportTicket>());
+};
+
+/**
+ * createExportTicket - Keeps an export request until its file is downloaded.
+ *
+ * The selection of an export can be too large for a URL, so it is posted first; the file is then
+ * downloaded through a plain link carrying the ticket, which the browser streams to disk.
+ *
+ * @param request - The export request.
+ * @param scope - The session and model view the export is for.
+ * @returns The ticket, valid once and for EXPORT_TICKET_TTL, within the same scope.
+ */
+export const createExportTicket = (request: ExportRequest, scope: ExportTicketScope): string => {
+  const exportTickets = getExportTickets();
+  const now = Date.now();
+  // Tickets that were never downloaded are dropped here, so they do not pile up.
+  exportTickets.forEach((ticket, id) => {
+    if (ticket.expiresAt <= now) exportTickets.delete(id);
+  });
+
+  const id = randomBytes(16).toString("base64url");
+  exportTickets.set(id, { request, scope, expiresAt: now + EXPORT_TICKET_TTL });
+  return id;
+};
+
+/**
+ * redeemExportTicket - Returns the export request of a ticket, which cannot be used again.
+ *
+ * @param id - The ticket.
+ * @param scope - The session and model view the ticket is redeemed for.
+ * @returns The export request, or null if the ticket is unknown, used, expired or issued for another scope.
+ */
+export const redeemExportTicket = (id: string, scope: ExportTicketScope): ExportRequest | null => {
+  const exportTickets = getExportTickets();
+  const ticket = exportTickets.get(id);
+  exportTickets.delete(id);
+  if (!ticket || ticket.expiresAt <= Date.now()) return null;
+
+  const { sessionId, versionUrn, viewGuid } = ticket.scope;
+  return sessionId === scope.sessionId && versionUrn === scope.versionUrn && viewGuid === scope.viewGuid ? ticket.request : null;
+};
+
+/**
+ * toRow - Converts an element into a row of cell values for the given property columns.
+ *
+ * @param item - The element to convert.
+ * @param columns - The property columns to include.
+ * @returns An array of cell values in header order.
+ */
+const toRow = (item: PropertiesDataCollection, columns: PropertyColumn[]): (string | number)[] => {
+  return [
+    item.objectid,
+    item.externalId || "",
+    item.name,
+    ...columns.map((column) => {
+      const value = getPropertyValue(item, column);
+      return typeof value === "number" ? value : formatPropertyValue(value);
+    }),
+  ];
+};
+
+/**
+ * escapeCsvField - Quotes a CSV field if it contains separators, quotes or line breaks.
+ *
+ * @param value - The cell value.
+ * @returns The escaped field.
+ */
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * createCsvStream - Streams elements as CSV with one column per category.property pair.
+ *
+ * Rows are encoded lazily in chunks so the whole file is never held in memory at once.
+ * The output starts with a UTF-8 byte order mark so spreadsheet applications detect the encoding.
+ *
+ * @param items - The elements to export.
+ * @param columns - The property columns to export; defaults to every column used by the elements.
+ * @returns A web ReadableStream producing the CSV bytes.
+ */
+export const createCsvStream = (items: PropertiesDataCollection[], columns: PropertyColumn[] = collectPropertyColumns(items)): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const header = [...BASE_HEADERS, ...columns.map(getPropertyColumnKey)];
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode("\uFEFF" + header.map(escapeCsvField).join(",") + "\r\n"));
+    },
+    pull(controller) {
+      const chunk = items.slice(index, index + CSV_ROWS_PER_CHUNK);
+      index += chunk.length;
+
+      if (chunk.length === 0) {
+        controller.close();
+        return;
+      }
+
+      const lines = chunk.map((item) => toRow(item, columns).map(escapeCsvField).join(",") + "\r\n");
+      controller.enqueue(encoder.encode(lines.join("")));
+    },
+  });
+};
+
+/**
+ * toSheetName - Makes a string safe to use as a unique Excel worksheet name.
+ *
+ * @param name - The desired sheet name.
+ * @param usedNames - Lower-cased names already taken in the workbook; updated in place.
+ * @returns A valid, unique worksheet name of at most 31 characters.
+ */
+const toSheetName = (name: string, usedNames: Set<string>): string => {
+  const base = (name.replace(/[\[\]:*?/\\]/g, " ").trim() || "Sheet").slice(0, 31);
+  let candidate = base;
+  let suffix = 2;
+  while (usedNames.has(candidate.toLowerCase())) {
+    const tag = ` (${suffix++})`;
+    candidate = base.slice(0, 31 - tag.length) + tag;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * createXlsxStream - Streams elements as a multi-sheet XLSX workbook.
+ *
+ * The first sheet contains every element. It is followed by one sheet per Revit category,
+ * each restricted to the property columns used by that category's elements, unless the
+ * columns are given.
+ *
+ * @param items - The elements to export.
+ * @param categories - A Map from objectid to Revit category name.
+ * @param columns - The property columns of every sheet; defaults to the columns used by each sheet's elements.
+ * @returns A web ReadableStream producing the XLSX bytes.
+ */
+export const createXlsxStream = (
+  items: PropertiesDataCollection[],
+  categories: Map<number, string>,
+  columns?: PropertyColumn[]
+): ReadableStream<Uint8Array> => {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false, useStyles: false });
+  const usedNames = new Set<string>();
+
+  // Group elements by their Revit category.
+  const groups = new Map<string, PropertiesDataCollection[]>();
+  items.forEach((item) => {
+    const category = categories.get(item.objectid) || "Uncategorized";
+    if (!groups.has(category)) groups.set(category, []);
+    groups.get(category)!.push(item);
+  });
+
+  /**
+   * writeSheet - Writes a worksheet for the given elements and commits it.
+   */
+  const writeSheet = async (name: string, sheetItems: PropertiesDataCollection[]) => {
+    const sheetColumns = columns || collectPropertyColumns(sheetItems);
+    const worksheet = workbook.addWorksheet(toSheetName(name, usedNames));
+    worksheet.addRow([...BASE_HEADERS, ...sheetColumns.map(getPropertyColumnKey)]).commit();
+    sheetItems.forEach((item) => worksheet.addRow(toRow(item, sheetColumns)).commit());
+    await worksheet.commit();
+  };
+
+  const write = async () => {
+    try {
+      await writeSheet("All Elements", items);
+      for (const [category, categoryItems] of [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+        await writeSheet(category, categoryItems);
+      }
+      await workbook.commit();
+    } catch (error) {
+      console.error("Error writing XLSX export:", error);
+      output.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  write();
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+};
@@ -0,0 +1,262 @@
+// lib/server/session.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { cookies } from 'next/headers';
+import path from 'path';
+import { SessionData } from '@/types';
+
+/**
+ * Server-side sessions.
+ *
+ * The browser only holds an opaque session ID in an httpOnly cookie; the APS tokens of the
+ * session are kept on the server, encrypted with AES-256-GCM, in a pluggable store. Stores are
+ * keyed by a hash of the session ID, so a leaked store cannot be used to forge cookies.
+ *
+ * Sessions expire after SESSION_IDLE_TIMEOUT without use; every use slides the expiry of both
+ * the stored session and the cookie. Logging out deletes the stored session, which revokes the
+ * cookie even if a copy of it is kept.
+ */
+
+// Cookie holding the session ID.
+const SESSION_COOKIE = 'session_id';
+
+// Cookies holding raw tokens before sessions were stored on the server, removed when a session starts.
+const LEGACY_TOKEN_COOKIES = ['public_token', 'internal_token', 'refresh_token', 'expires_at'];
+
+// Time without use after which a session expires, in milliseconds.
+const SESSION_IDLE_TIMEOUT = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+// Minimum time between two writes sliding the expiry of a session, in milliseconds.
+const SESSION_TOUCH_INTERVAL = 1000 * 60 * 5; // 5 minutes
+
+/**
+ * SessionRecord - A session as kept by a session store.
+ */
+export interface SessionRecord {
+  // The session's SessionData, encrypted.
+  tokens: string;
+  createdAt: number;
+  // Last use of the session, from which its idle expiry is counted.
+  lastSeenAt: number;
+}
+
+/**
+ * SessionStore - Where sessions are kept, keyed by the hash of their ID.
+ */
+export interface SessionStore {
+  get(key: string): Promise<SessionRecord | null>;
+  set(key: string, record: SessionRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * createMemoryStore - Keeps sessions in the memory of the server process; they are lost on
+ * restart and not shared between instances.
+ */
+export const createMemoryStore = (): SessionStore => {
+  // Kept on globalThis, so route handlers bundled separately in development share the sessions.
+  const globalStore = globalThis as typeof globalThis & { __sessions?: Map<string, SessionRecord> };
+  const sessions = (globalStore.__sessions ??= new Map<string, SessionRecord>());
+
+  return {
+    get: async (key) => sessions.get(key) || null,
+    set: async (key, record) => {
+      sessions.set(key, record);
+    },
+    delete: async (key) => {
+      sessions.delete(key);
+    },
+  };
+};
+
+/**
+ * createFileStore - Keeps each session in a JSON file of a directory, so sessions survive restarts.
+ *
+ * @param directory - The directory holding the session files.
+ */
+export const createFileStore = (directory: string): SessionStore => {
+  const getPath = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    get: async (key) => {
+      try {
+        return JSON.parse(await fs.readFile(getPath(key), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error('Error reading session:', error);
+        }
+        return null;
+      }
+    },
+    set: async (key, record) => {
+      // Written through a temporary file, so readers never see a partial session.
+      await fs.mkdir(directory, { recursive: true });
+      const tempPath = `${getPath(key)}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(record), { mode: 0o600 });
+      await fs.rename(tempPath, getPath(key));
+    },
+    delete: async (key) => {
+      try {
+        await fs.unlink(getPath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+};
+
+/**
+ * getSessionStore - Returns the store picked by the SESSION_STORE environment variable:
+ * "memory", or "file" (the default) in SESSION_STORE_DIR.
+ */
+const getSessionStore = (): SessionStore => {
+  if (process.env.SESSION_STORE === 'memory') {
+    return createMemoryStore();
+  }
+  return createFileStore(process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.cache', 'sessions'));
+};
+
+const sessionStore = getSessionStore();
+
+/**
+ * getEncryptionKey - Derives the key encrypting stored tokens from SESSION_SECRET.
+ */
+const getEncryptionKey = (): Buffer => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set');
+  }
+  return createHash('sha256').update(secret).digest();
+};
+
+/**
+ * encryptTokens - Encrypts session tokens as "iv.authTag.ciphertext", base64url-encoded.
+ */
+const encryptTokens = (tokens: SessionData): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+};
+
+/**
+ * decryptTokens - Decrypts session tokens encrypted by encryptTokens.
+ *
+ * @throws If the value was altered or encrypted with another secret.
+ */
+const decryptTokens = (value: string): SessionData => {
+  const [iv, authTag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return JSON.parse(Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8'));
+};
+
+/**
+ * getStoreKey - Hashes a session ID into the key of its stored session.
+ */
+const getStoreKey = (sessionId: string): string => {
+  return createHash('sha256').update(sessionId).digest('hex');
+};
+
+/**
+ * setSessionCookie - Sets the session cookie, expiring with the session.
+ */
+const setSessionCookie = async (sessionId: string): Promise<void> => {
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: SESSION_IDLE_TIMEOUT / 1000,
+    path: '/'
+  });
+};
+
+/**
+ * createSession - Starts a session holding the given tokens and sets its cookie.
+ *
+ * @param tokens - The tokens obtained by signing in.
+ */
+export async function createSession(tokens: SessionData): Promise<void> {
+  const sessionId = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  await sessionStore.set(getStoreKey(sessionId), { tokens: encryptTokens(tokens), createdAt: now, lastSeenAt: now });
+  await setSessionCookie(sessionId);
+
+  const cookieStore = await cookies();
+  LEGACY_TOKEN_COOKIES.forEach((name) => cookieStore.delete(name));
+}
+
+/**
+ * getSession - Reads the tokens of the current session, sliding its expiry.
+ *
+ * @returns The session ID and tokens, or null if there is no session or it expired.
+ */
+export async function getSession(): Promise<{ sessionId: string; tokens: SessionData } | null> {
+  const cookieStore = await cookies();
+  const sessionId = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!sessionId) {
+    return null;
+  }
+
+  const key = getStoreKey(sessionId);
+  const record = await sessionStore.get(key);
+  if (!record) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (now - record.lastSeenAt > SESSION_IDLE_TIMEOUT) {
+    await sessionStore.delete(key);
+    return null;
+  }
+
+  let tokens: SessionData;
+  try {
+    tokens = decryptTokens(record.tokens);
+  } catch (error) {
+    // The secret changed since the session started; the user signs in again.
+    console.error('Error decrypting session:', error);
+    await sessionStore.delete(key);
+    return null;
+  }
+
+  if (now - record.lastSeenAt > SESSION_TOUCH_INTERVAL) {
+    await sessionStore.set(key, { ...record, lastSeenAt: now });
+    await setSessionCookie(sessionId);
+  }
+
+  return { sessionId, tokens };
+}
+
+/**
+ * updateSession - Replaces the tokens of a session, e.g. once they have been refreshed.
+ *
+ * @param sessionId - The session ID.
+ * @param tokens - The new tokens.
+ */
+export async function updateSession(sessionId: string, tokens: SessionData): Promise<void> {
+  const key = getStoreKey(sessionId);
+  const record = await sessionStore.get(key);
+  const now = Date.now();
+  await sessionStore.set(key, { tokens: encryptTokens(tokens), createdAt: record?.createdAt ?? now, lastSeenAt: now });
+}
+
+/**
+ * destroySession - Ends the current session: its stored tokens are deleted and its cookie removed.
+ *
+ * @returns The tokens of the ended session, so they can be revoked, or null if there was none.
+ */
+export async function destroySession(): Promise<SessionData | null> {
+  const session = await getSession();
+  const cookieStore = await cookies();
+  const sessionId = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (sessionId) {
+    await sessionStore.delete(getStoreKey(sessionId));
+  }
+  cookieStore.delete(SESSION_COOKIE);
+  LEGACY_TOKEN_COOKIES.forEach((name) => cookieStore.delete(name));
+
+  return session?.tokens || null;
+}
@@ -0,0 +1,69 @@
+// lib/server/stream.ts
+import { ViewDataMessage } from "@/types";
+import { ProgressListener, ViewData } from "@/lib/server/cache";
+
+// Number of elements sent per "properties" line.
+const PROPERTIES_PER_MESSAGE = 1000;
+
+/**
+ * createViewDataStream - Streams the data of a model view as NDJSON, one ViewDataMessage per line.
+ *
+ * The response starts while the data is still being loaded, so progress of properties fetched
+ * in pages can be reported. The object tree is then sent so the client can size its progress
+ * bar, and the properties are encoded lazily in pages so the whole payload is never serialised
+ * at once on either side.
+ *
+ * @param loadViewData - Loads the properties and object tree of the view, reporting progress.
+ * @returns A web ReadableStream producing the NDJSON bytes.
+ */
+export const createViewDataStream = (loadViewData: (onProgress: ProgressListener) => Promise<ViewData>): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const encode = (message: ViewDataMessage) => encoder.encode(JSON.stringify(message) + "\n");
+  let properties: ViewData["properties"] = [];
+  let index = 0;
+  // Set when the client disconnects; the load continues so its result is still cached.
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let viewData: ViewData;
+      try {
+        viewData = await loadViewData((loaded, total) => {
+          if (!cancelled) controller.enqueue(encode({ type: "progress", loaded, total }));
+        });
+      } catch (error) {
+        // Headers are already sent, so the failure is reported in the stream.
+        console.error("Error getting all properties:", error);
+        if (!cancelled) {
+          controller.enqueue(encode({ type: "error", message: "Failed to fetch all properties" }));
+          controller.close();
+        }
+        return;
+      }
+      if (cancelled) return;
+
+      if (viewData.isProcessing) {
+        controller.enqueue(encode({ type: "processing" }));
+        controller.close();
+        return;
+      }
+      properties = viewData.properties;
+      controller.enqueue(encode({ type: "tree", objectTree: viewData.objectTree, total: properties.length }));
+    },
+    pull(controller) {
+      const items = properties.slice(index, index + PROPERTIES_PER_MESSAGE);
+      index += items.length;
+
+      if (items.length === 0) {
+        controller.enqueue(encode({ type: "end" }));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encode({ type: "properties", items }));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+};
@@ -0,0 +1,111 @@
+// lib/server/translation.ts
+import { Region } from "@aps_sdk/model-derivative";
+import { TranslationStatus } from "@/types";
+import { FAILED_MANIFEST_STATUSES, summarizeManifest } from "@/lib/manifest";
+import { getManifest, isPropertyDatabaseReady } from "@/lib/services/aps";
+
+// Interval between two status checks, in milliseconds.
+const POLL_INTERVAL = 2000;
+
+// Time after which the status stream gives up waiting, in milliseconds.
+const MAX_WAIT = 30 * 60 * 1000;
+
+/**
+ * getTranslationStatus - Determines how far a model view is from having its properties available.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param viewGuid - The GUID of the model view.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @returns A Promise that resolves with the translation status, including manifest messages.
+ */
+export const getTranslationStatus = async (versionUrn: string, viewGuid: string, region: Region, accessToken: string): Promise<TranslationStatus> => {
+  const manifest = await getManifest(versionUrn, region, accessToken);
+  const status = summarizeManifest(manifest);
+
+  if (FAILED_MANIFEST_STATUSES.includes(manifest.status)) {
+    return { ...status, state: "failed" };
+  }
+  if (manifest.status !== "success") {
+    return { ...status, state: "translating" };
+  }
+
+  // The manifest is complete; the property database is extracted on first request.
+  const ready = await isPropertyDatabaseReady(versionUrn, viewGuid, region, accessToken);
+  return { ...status, state: ready ? "ready" : "extracting" };
+};
+
+/**
+ * createTranslationEventStream - Streams the translation status of a model view as server-sent
+ * events until the view is ready, the translation fails, or the client disconnects.
+ *
+ * Every change is sent as a "status" event whose data is a TranslationStatus; the stream ends
+ * after a "ready" or "failed" state.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param viewGuid - The GUID of the model view.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @param signal - Aborted when the client disconnects.
+ * @returns A web ReadableStream producing the event stream.
+ */
+export const createTranslationEventStream = (
+  versionUrn: string,
+  viewGuid: string,
+  region: Region,
+  accessToken: string,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, status: TranslationStatus) => {
+    controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(status)}\n\n`));
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startedAt = Date.now();
+      let previous = "";
+
+      try {
+        while (!signal.aborted) {
+          const status = await getTranslationStatus(versionUrn, viewGuid, region, accessToken);
+          if (signal.aborted) break;
+
+          // Only changes are sent; a comment line keeps idle connections open.
+          const serialized = JSON.stringify(status);
+          if (serialized !== previous) {
+            send(controller, status);
+            previous = serialized;
+          } else {
+            controller.enqueue(encoder.encode(": waiting\n\n"));
+          }
+
+          if (status.state === "ready" || status.state === "failed") break;
+
+          if (Date.now() - startedAt > MAX_WAIT) {
+            send(controller, {
+              ...status,
+              state: "failed",
+              messages: [...status.messages, { type: "error", code: "", message: "Timed out waiting for the model to be processed. Please try again later." }],
+            });
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        }
+      } catch (error) {
+        console.error("Error streaming translation status:", error);
+        if (!signal.aborted) {
+          send(controller, {
+            state: "failed",
+            status: "unknown",
+            progress: 0,
+            messages: [{ type: "error", code: "", message: "Failed to retrieve the translation status" }],
+          });
+        }
+      }
+
+      if (!signal.aborted) controller.close();
+    },
+  });
+};
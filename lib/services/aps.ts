@@ -1,10 +1,10 @@
 // lib/services/aps.ts
-import { AuthenticationClient, ResponseType, Scopes } from "@aps_sdk/authentication";
+import { AuthenticationClient, ResponseType, Scopes, TokenTypeHint } from "@aps_sdk/authentication";
 import { DataManagementClient } from "@aps_sdk/data-management";
-import { Hub, Project, FolderContent, Version, UserProfile, SessionData, View } from "@/types";
-import { Hubs, HubData, ProjectData, TopFolderData, FolderContentsData, VersionData } from "@aps_sdk/data-management/dist/model";
+import { Hub, Project, FolderContent, Version, VersionMetadata, UserProfile, SessionData, View, ProjectSearch } from "@/types";
+import { Hubs, HubData, ProjectData, TopFolderData, FolderContentsData, VersionData, ItemData } from "@aps_sdk/data-management/dist/model";
 import { UserInfo } from "@aps_sdk/authentication/dist/model";
-import { ModelDerivativeClient, ModelViewsDataMetadata, ObjectTreeDataObjects, PropertiesDataCollection, Region } from "@aps_sdk/model-derivative";
+import { Job, Manifest, ModelDerivativeClient, ModelViewsDataMetadata, ObjectTreeDataObjects, OutputType, PropertiesDataCollection, Region, SpecificPropertiesPayloadQuery, View as OutputView } from "@aps_sdk/model-derivative";
 
 // Create instances of APS SDK clients.
 const authenticationClient = new AuthenticationClient();
@@ -23,26 +23,33 @@ const PUBLIC_TOKEN_SCOPES = [Scopes.ViewablesRead];
 /**
  * getAuthorizationUrl - Generates the authorization URL for user login.
  *
+ * @param state - Nonce returned to the callback, tying it to the login that started in this browser.
+ * @param codeChallenge - SHA-256 of the PKCE code verifier, base64url-encoded.
  * @returns The URL string that the user should be redirected to for authentication.
  */
-export const getAuthorizationUrl = (): string => {
-  return authenticationClient.authorize(APS_CLIENT_ID, ResponseType.Code, APS_CALLBACK_URL, INTERNAL_TOKEN_SCOPES);
+export const getAuthorizationUrl = (state: string, codeChallenge: string): string => {
+  return authenticationClient.authorize(APS_CLIENT_ID, ResponseType.Code, APS_CALLBACK_URL, INTERNAL_TOKEN_SCOPES, {
+    state,
+    codeChallenge,
+    codeChallengeMethod: "S256",
+  });
 };
 
 /**
  * getTokens - Exchanges an authorization code for session tokens.
  *
  * @param code - The authorization code received from the authentication callback.
+ * @param codeVerifier - The PKCE code verifier of the login, proving the code is redeemed by the app that requested it.
  * @returns A Promise that resolves with session data including internal and public tokens, refresh token, and expiration.
  */
-export const getTokens = async (code: string): Promise<SessionData> => {
+export const getTokens = async (code: string, codeVerifier: string): Promise<SessionData> => {
   try {
     // Get internal credentials using the three-legged token flow.
     const internalCredentials = await authenticationClient.getThreeLeggedToken(
       APS_CLIENT_ID,
       code,
       APS_CALLBACK_URL,
-      { clientSecret: APS_CLIENT_SECRET }
+      { clientSecret: APS_CLIENT_SECRET, code_verifier: codeVerifier }
     );
 
     // Refresh token to obtain public credentials with limited scopes.
@@ -98,6 +105,21 @@ export const refreshTokens = async (refreshToken: string): Promise<SessionData>
   }
 };
 
+/**
+ * revokeRefreshToken - Revokes a refresh token, so it can no longer be used to obtain access tokens.
+ *
+ * @param refreshToken - The refresh token of the session being ended.
+ * @returns A Promise that resolves once the token is revoked.
+ */
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  try {
+    await authenticationClient.revoke(refreshToken, APS_CLIENT_ID, TokenTypeHint.RefreshToken, { clientSecret: APS_CLIENT_SECRET });
+  } catch (error) {
+    console.error("Error revoking refresh token:", error);
+    throw error;
+  }
+};
+
 /**
  * getUserProfile - Retrieves the user's profile information.
  *
@@ -117,6 +139,40 @@ export const getUserProfile = async (accessToken: string): Promise<UserProfile>
   }
 };
 
+/**
+ * fetchAllPages - Reads every page of a paginated Data Management list.
+ *
+ * @param fetchPage - Fetches a page by its 0-based number.
+ * @returns A Promise that resolves with the entries of all pages, fetched until a page has no links.next.
+ */
+const fetchAllPages = async <T>(fetchPage: (pageNumber: number) => Promise<{ data?: T[]; links?: { next?: { href?: string } } }>): Promise<T[]> => {
+  const entries: T[] = [];
+  for (let pageNumber = 0; ; pageNumber++) {
+    const resp = await fetchPage(pageNumber);
+    entries.push(...(resp.data || []));
+    if (!resp.links?.next?.href) return entries;
+  }
+};
+
+/**
+ * toVersionMetadata - Extracts the details shown in the project tree from a version.
+ *
+ * @param version - The version returned by the Data Management API.
+ * @returns The version's metadata; the file type falls back to the extension of its name.
+ */
+const toVersionMetadata = (version: VersionData): VersionMetadata => {
+  const { attributes } = version;
+  const description = attributes.extension?.data?.description;
+  return {
+    versionNumber: attributes.versionNumber,
+    fileType: (attributes.fileType || attributes.displayName.split(".").pop() || "").toLowerCase(),
+    storageSize: attributes.storageSize,
+    lastModifiedTime: attributes.lastModifiedTime,
+    lastModifiedUserName: attributes.lastModifiedUserName,
+    description: typeof description === "string" && description ? description : undefined,
+  };
+};
+
 /**
  * getHubs - Fetches the list of hubs accessible with the given access token.
  *
@@ -156,9 +212,9 @@ export const getHubs = async (accessToken: string): Promise<Hub[]> => {
  */
 export const getProjects = async (hubId: string, accessToken: string): Promise<Project[]> => {
   try {
-    const resp = await dataManagementClient.getHubProjects(hubId, { accessToken });
+    const data = await fetchAllPages((pageNumber) => dataManagementClient.getHubProjects(hubId, { pageNumber, accessToken }));
     const projects: Project[] = [];
-    resp.data?.forEach((project: ProjectData) => {
+    data.forEach((project: ProjectData) => {
       if (project.id) {
         projects.push({
           id: project.id,
@@ -188,20 +244,27 @@ export const getProjectContents = async (hubId: string, projectId: string, folde
   try {
     const folders: FolderContent[] = [];
     let data: FolderContentsData[] | TopFolderData[] = [];
+    const tips = new Map<string, VersionData>();
     if (!folderId) {
       const resp = await dataManagementClient.getProjectTopFolders(hubId, projectId, { accessToken });
       data = resp.data || [];
     } else {
-      const resp = await dataManagementClient.getFolderContents(projectId, folderId, { accessToken });
-      data = resp.data || [];
+      data = await fetchAllPages(async (pageNumber) => {
+        const resp = await dataManagementClient.getFolderContents(projectId, folderId, { pageNumber, accessToken });
+        // The latest version of each item is included alongside the folder contents.
+        resp.included?.forEach((version: VersionData) => tips.set(version.id, version));
+        return resp;
+      });
     }
 
     // Map API data entries to FolderContent objects.
     data.forEach((entry: FolderContentsData | TopFolderData) => {
+      const tip = entry.type === "items" ? tips.get((entry as ItemData).relationships.tip?.data?.id || "") : undefined;
       folders.push({
         id: entry.id,
         name: entry.attributes.displayName,
         folder: entry.type === "folders",
+        tip: tip && toVersionMetadata(tip),
       });
     });
     return folders;
@@ -222,12 +285,13 @@ export const getProjectContents = async (hubId: string, projectId: string, folde
 export const getItemVersions = async (projectId: string, itemId: string, accessToken: string): Promise<Version[]> => {
   try {
     const versions: Version[] = [];
-    const resp = await dataManagementClient.getItemVersions(projectId, itemId, { accessToken });
-    resp.data?.forEach((version: VersionData) => {
+    const data = await fetchAllPages((pageNumber) => dataManagementClient.getItemVersions(projectId, itemId, { pageNumber, accessToken }));
+    data.forEach((version: VersionData) => {
       if (version.id) {
         versions.push({
           id: version.id,
-          name: version.attributes.createTime,
+          name: `V${version.attributes.versionNumber}`,
+          metadata: toVersionMetadata(version),
         });
       }
     });
@@ -238,6 +302,114 @@ export const getItemVersions = async (projectId: string, itemId: string, accessT
   }
 };
 
+// Pages of search results read per top folder; each page holds up to 200 versions.
+const MAX_SEARCH_PAGES = 5;
+
+// Items returned by a project search at most.
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * searchProjectItems - Searches the folders of a project for items by name and file extension.
+ *
+ * The Data Management search lists the latest versions under a folder and its subfolders, and
+ * filters on one field only: the file extensions when given, otherwise the names. The names are
+ * always checked here too, as the API cannot filter on both.
+ *
+ * The search reads at most MAX_SEARCH_PAGES pages per top folder and returns at most
+ * MAX_SEARCH_RESULTS items; when it stops early, the result is flagged as truncated.
+ *
+ * @param hubId - The hub ID.
+ * @param projectId - The project ID.
+ * @param query - Text the item names must contain, case-insensitively; empty to match any name.
+ * @param extensions - File extensions to match, without the dot; empty to match any extension.
+ * @param accessToken - The access token for authorization.
+ * @returns A Promise that resolves with the matching items and their folder paths, sorted by name,
+ * and whether more items may match.
+ */
+export const searchProjectItems = async (
+  hubId: string,
+  projectId: string,
+  query: string,
+  extensions: string[],
+  accessToken: string
+): Promise<ProjectSearch> => {
+  try {
+    const topFolders = (await dataManagementClient.getProjectTopFolders(hubId, projectId, { accessToken })).data || [];
+    const folderPaths = new Map<string, Promise<{ id: string; name: string }[]>>();
+    topFolders.forEach((folder: TopFolderData) => folderPaths.set(folder.id, Promise.resolve([{ id: folder.id, name: folder.attributes.displayName }])));
+
+    // Folders are looked up once per search, walking up to a top folder.
+    const getFolderPath = (folderId: string): Promise<{ id: string; name: string }[]> => {
+      if (!folderPaths.has(folderId)) {
+        folderPaths.set(
+          folderId,
+          dataManagementClient.getFolder(projectId, folderId, { accessToken }).then(async ({ data }) => {
+            const parentId = data?.relationships.parent.data?.id;
+            const parentPath = parentId ? await getFolderPath(parentId) : [];
+            return [...parentPath, { id: folderId, name: data?.attributes.displayName || "" }];
+          })
+        );
+      }
+      return folderPaths.get(folderId)!;
+    };
+
+    const lowerQuery = query.toLowerCase();
+    const matches: { version: VersionData; item?: ItemData }[] = [];
+    let truncated = false;
+
+    // The SDK only builds exact filters, so the name filter's "contains" operator is passed as a raw parameter.
+    const nameFilter = extensions.length === 0 && query ? { params: { "filter[displayName]-contains": query } } : undefined;
+
+    for (const folder of topFolders) {
+      if (matches.length >= MAX_SEARCH_RESULTS) {
+        truncated = true;
+        break;
+      }
+
+      for (let pageNumber = 0; ; pageNumber++) {
+        const resp = await dataManagementClient.getFolderSearch(projectId, folder.id, {
+          filterFieldName: extensions.length > 0 ? "fileType" : undefined,
+          filterValue: extensions.length > 0 ? extensions : undefined,
+          pageNumber,
+          accessToken,
+          options: nameFilter,
+        });
+
+        resp.data?.forEach((version: VersionData) => {
+          if (!version.attributes.displayName.toLowerCase().includes(lowerQuery)) return;
+          const item = resp.included?.find((included: ItemData) => included.id === version.relationships.item.data?.id);
+          matches.push({ version, item });
+        });
+
+        if (!resp.links?.next) break;
+        if (pageNumber + 1 >= MAX_SEARCH_PAGES || matches.length >= MAX_SEARCH_RESULTS) {
+          truncated = true;
+          break;
+        }
+      }
+    }
+
+    const results = await Promise.all(
+      matches.slice(0, MAX_SEARCH_RESULTS).map(async ({ version, item }) => {
+        const parentId = item?.relationships.parent.data?.id;
+        return {
+          itemId: version.relationships.item.data?.id || "",
+          name: version.attributes.displayName,
+          fileType: version.attributes.fileType || "",
+          folders: parentId ? await getFolderPath(parentId) : [],
+        };
+      })
+    );
+    return {
+      results: results.filter((result) => result.itemId).sort((a, b) => a.name.localeCompare(b.name)),
+      truncated: truncated || matches.length > MAX_SEARCH_RESULTS,
+    };
+  } catch (error) {
+    console.error("Error searching project items:", error);
+    throw error;
+  }
+};
+
 /**
  * getModelViews - Retrieves model views for a given version URN.
  *
@@ -267,6 +439,50 @@ export const getModelViews = async (versionUrn: string, region: Region, accessTo
   }
 };
 
+/**
+ * getManifest - Retrieves the derivative manifest of a given version.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @returns A Promise that resolves with the manifest, listing the derivatives and translation status.
+ */
+export const getManifest = async (versionUrn: string, region: Region, accessToken: string): Promise<Manifest> => {
+  try {
+    return await modelDerivativeClient.getManifest(versionUrn, { region, accessToken });
+  } catch (error) {
+    console.error("Error fetching manifest:", error);
+    throw error;
+  }
+};
+
+/**
+ * startTranslation - Starts a translation job producing the 2D and 3D SVF2 viewables of a given version.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @param force - Whether to translate again even if derivatives exist, e.g. after a failed translation.
+ * @returns A Promise that resolves with the accepted job.
+ */
+export const startTranslation = async (versionUrn: string, region: Region, accessToken: string, force: boolean = false): Promise<Job> => {
+  try {
+    return await modelDerivativeClient.startJob(
+      {
+        input: { urn: versionUrn },
+        output: {
+          destination: { region: region.toLowerCase() },
+          formats: [{ type: OutputType.Svf2, views: [OutputView._2d, OutputView._3d] }],
+        },
+      },
+      { region, accessToken, xAdsForce: force }
+    );
+  } catch (error) {
+    console.error("Error starting translation:", error);
+    throw error;
+  }
+};
+
 /**
  * getAllProperties - Retrieves all properties for a given model.
  *
@@ -299,6 +515,154 @@ export const getAllProperties = async (
   }
 };
 
+// Number of objects requested per specific-properties query; the service returns at most 1000 per page.
+const SPECIFIC_PROPERTIES_PAGE_SIZE = 1000;
+
+// Number of object IDs in each range queried by getAllPropertiesInPages.
+const OBJECT_ID_RANGE_SIZE = SPECIFIC_PROPERTIES_PAGE_SIZE;
+
+// Consecutive ranges without objects after which getAllPropertiesInPages assumes every object was fetched.
+const MAX_EMPTY_OBJECT_ID_RANGES = 10;
+
+/**
+ * getSpecificProperties - Retrieves the properties of the objects matching a specific-properties query.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param modelGuid - The GUID of the model.
+ * @param query - The objects to retrieve, e.g. a range of object IDs.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @returns A Promise that resolves with an object containing properties and a processing status.
+ */
+export const getSpecificProperties = async (
+  versionUrn: string,
+  modelGuid: string,
+  query: SpecificPropertiesPayloadQuery,
+  region: Region,
+  accessToken: string
+): Promise<{ properties: PropertiesDataCollection[]; isProcessing: boolean }> => {
+  try {
+    const properties: PropertiesDataCollection[] = [];
+    let offset = 0;
+    let totalResults = 0;
+
+    // Follow the result pagination, although a range of object IDs normally fits in one response.
+    do {
+      const resp = await modelDerivativeClient.fetchSpecificProperties(
+        versionUrn,
+        modelGuid,
+        { query, pagination: { offset, limit: SPECIFIC_PROPERTIES_PAGE_SIZE } },
+        { region, accessToken }
+      );
+      if (resp.isProcessing) {
+        return { properties: [], isProcessing: true };
+      }
+      properties.push(...(resp.data?.collection || []));
+      totalResults = resp.pagination?.totalResults || 0;
+      offset += SPECIFIC_PROPERTIES_PAGE_SIZE;
+    } while (offset < totalResults);
+
+    return { properties, isProcessing: false };
+  } catch (error) {
+    console.error("Error fetching specific properties:", error);
+    throw error;
+  }
+};
+
+/**
+ * getObjectCount - Counts the objects of a model with a single-object specific-properties query
+ * over every object ID.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param modelGuid - The GUID of the model.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @returns A Promise that resolves with the number of objects, or null while the property database is processed.
+ */
+const getObjectCount = async (versionUrn: string, modelGuid: string, region: Region, accessToken: string): Promise<number | null> => {
+  try {
+    const resp = await modelDerivativeClient.fetchSpecificProperties(
+      versionUrn,
+      modelGuid,
+      { query: { $between: ["objectid", 1, Number.MAX_SAFE_INTEGER] }, pagination: { offset: 0, limit: 1 } },
+      { region, accessToken }
+    );
+    return resp.isProcessing ? null : resp.pagination?.totalResults || 0;
+  } catch (error) {
+    console.error("Error counting objects:", error);
+    throw error;
+  }
+};
+
+/**
+ * getAllPropertiesInPages - Retrieves the properties of a model page by page, for models whose
+ * property database is too large for getAllProperties.
+ *
+ * Object IDs are numbered from 1, so consecutive ranges of IDs are queried until every counted
+ * object is fetched; the object tree is not needed.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param modelGuid - The GUID of the model.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @param onProgress - Called after each range with the number of objects fetched so far and in total.
+ * @returns A Promise that resolves with an object containing properties and a processing status.
+ */
+export const getAllPropertiesInPages = async (
+  versionUrn: string,
+  modelGuid: string,
+  region: Region,
+  accessToken: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<{ properties: PropertiesDataCollection[]; isProcessing: boolean }> => {
+  const objectCount = await getObjectCount(versionUrn, modelGuid, region, accessToken);
+  if (objectCount === null) {
+    return { properties: [], isProcessing: true };
+  }
+
+  const properties: PropertiesDataCollection[] = [];
+  // Gaps in the object IDs are skipped, but a long run of empty ranges ends the paging.
+  let emptyRanges = 0;
+
+  for (let first = 1; properties.length < objectCount && emptyRanges < MAX_EMPTY_OBJECT_ID_RANGES; first += OBJECT_ID_RANGE_SIZE) {
+    const range: SpecificPropertiesPayloadQuery = { $between: ["objectid", first, first + OBJECT_ID_RANGE_SIZE - 1] };
+    const page = await getSpecificProperties(versionUrn, modelGuid, range, region, accessToken);
+    if (page.isProcessing) {
+      return { properties: [], isProcessing: true };
+    }
+    emptyRanges = page.properties.length > 0 ? 0 : emptyRanges + 1;
+    properties.push(...page.properties);
+    onProgress?.(Math.min(properties.length, objectCount), objectCount);
+  }
+
+  return { properties, isProcessing: false };
+};
+
+/**
+ * isPropertyDatabaseReady - Checks whether the property database of a model has been extracted,
+ * with a single-object specific-properties query rather than downloading every property.
+ *
+ * @param versionUrn - The URN of the version.
+ * @param modelGuid - The GUID of the model.
+ * @param region - The region of the model derivative service.
+ * @param accessToken - The access token for authorization.
+ * @returns A Promise that resolves with true once properties can be fetched.
+ */
+export const isPropertyDatabaseReady = async (versionUrn: string, modelGuid: string, region: Region, accessToken: string): Promise<boolean> => {
+  try {
+    const resp = await modelDerivativeClient.fetchSpecificProperties(
+      versionUrn,
+      modelGuid,
+      { query: { $in: ["objectid", 1] }, pagination: { offset: 0, limit: 1 } },
+      { region, accessToken }
+    );
+    return !resp.isProcessing;
+  } catch (error) {
+    console.error("Error checking the property database:", error);
+    throw error;
+  }
+};
+
 /**
  * getObjectTree - Retrieves the object tree for a given model.
  *
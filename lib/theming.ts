@@ -0,0 +1,135 @@
+// lib/theming.ts
+import { PropertiesDataCollection } from "@aps_sdk/model-derivative";
+import { formatPropertyValue, getPropertyValue, PropertyColumn } from "@/lib/properties";
+import { convertToSystem, Dimension, formatParsedValue, parsePropertyValue, ParsedValue, toBaseValue, UnitSystem } from "@/lib/units";
+
+/**
+ * Colour themes for the model viewer.
+ *
+ * A theme colours every element by the value of one parameter: categorical values each get a
+ * distinct colour, numeric values (with or without units) a blue-to-red gradient. Elements
+ * without a value are listed separately so the viewer can ghost them.
+ */
+
+/**
+ * LegendEntry - A colour of the theme and what it stands for.
+ */
+export interface LegendEntry {
+  label: string;
+  // Colour as a "#rrggbb" string.
+  color: string;
+  // Elements with this colour; gradient stops have no count.
+  count?: number;
+}
+
+export interface ColorTheme {
+  kind: "categorical" | "numeric";
+  // Colour of every element with a value, keyed by objectid.
+  colors: Map<number, string>;
+  // Elements without a value for the parameter.
+  missing: number[];
+  legend: LegendEntry[];
+}
+
+// Distinct colours for categorical values, extended with generated hues when exhausted.
+const PALETTE = ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2", "#7f7f7f", "#bcbd22", "#17becf", "#393b79", "#e7ba52"];
+
+// Number of labelled stops in the legend of a gradient.
+const GRADIENT_STOPS = 5;
+
+// Base units of each dimension, in which toBaseValue expresses values.
+const BASE_UNITS: Record<Dimension, string> = { length: "m", area: "m²", volume: "m³", angle: "°", mass: "kg", none: "" };
+
+/**
+ * hslToHex - Converts an HSL colour (hue in degrees, saturation and lightness from 0 to 1) to "#rrggbb".
+ */
+const hslToHex = (hue: number, saturation: number, lightness: number): string => {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+/**
+ * getCategoricalColor - Returns the colour of the n-th categorical value; hues beyond the
+ * palette are spread with the golden angle so neighbouring values stay distinguishable.
+ */
+const getCategoricalColor = (index: number): string => {
+  return index < PALETTE.length ? PALETTE[index] : hslToHex((index * 137.508) % 360, 0.65, 0.5);
+};
+
+/**
+ * getGradientColor - Returns the colour at a position from 0 (blue) to 1 (red) of the gradient.
+ */
+const getGradientColor = (position: number): string => {
+  return hslToHex(240 * (1 - position), 0.8, 0.5);
+};
+
+/**
+ * buildColorTheme - Colours the given elements by the value of a parameter.
+ *
+ * The values are treated as numeric when every value parses as a number of the same
+ * dimension, so lengths in mm and m share one gradient; otherwise each distinct value is a
+ * category, most frequent first.
+ *
+ * @param items - The elements to colour.
+ * @param column - The parameter to colour by.
+ * @param system - The unit system in which the gradient legend is labelled.
+ * @returns The colour of each element, the elements without a value, and the legend.
+ */
+export const buildColorTheme = (items: PropertiesDataCollection[], column: PropertyColumn, system: UnitSystem): ColorTheme => {
+  const missing: number[] = [];
+  const values: { objectid: number; raw: unknown; text: string }[] = [];
+
+  items.forEach((item) => {
+    const raw = getPropertyValue(item, column);
+    const text = formatPropertyValue(raw).trim();
+    if (text === "") {
+      missing.push(item.objectid);
+    } else {
+      values.push({ objectid: item.objectid, raw, text });
+    }
+  });
+
+  // Numeric values share one dimension; a single distinct number is better shown as a category.
+  const parsed = values.map((value) => parsePropertyValue(value.raw));
+  const dimension = parsed[0]?.dimension;
+  const isNumeric = parsed.length > 0 && parsed.every((value) => value && value.dimension === dimension);
+
+  if (isNumeric) {
+    const baseValues = (parsed as ParsedValue[]).map(toBaseValue);
+    // Reduced rather than spread into Math.min/max, which overflow the call stack on large models.
+    const min = baseValues.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+    const max = baseValues.reduce((highest, value) => Math.max(highest, value), -Infinity);
+
+    if (max > min) {
+      const colors = new Map<number, string>();
+      values.forEach((value, index) => colors.set(value.objectid, getGradientColor((baseValues[index] - min) / (max - min))));
+
+      const legend = Array.from({ length: GRADIENT_STOPS }, (_, stop) => {
+        const position = stop / (GRADIENT_STOPS - 1);
+        const base: ParsedValue = { value: min + (max - min) * position, unit: BASE_UNITS[dimension!], dimension: dimension! };
+        return { label: formatParsedValue(convertToSystem(base, system)), color: getGradientColor(position) };
+      });
+
+      return { kind: "numeric", colors, missing, legend };
+    }
+  }
+
+  // Categorical: one colour per distinct value, the most frequent values getting the palette colours.
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value.text, (counts.get(value.text) || 0) + 1));
+  const legend = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], undefined, { numeric: true }))
+    .map(([label, count], index) => ({ label, color: getCategoricalColor(index), count }));
+
+  const colorsByText = new Map(legend.map((entry) => [entry.label, entry.color]));
+  const colors = new Map(values.map((value) => [value.objectid, colorsByText.get(value.text)!]));
+
+  return { kind: "categorical", colors, missing, legend };
+};
@@ -0,0 +1,255 @@
+// lib/units.ts
+
+/**
+ * Unit-aware parsing of APS property values.
+ *
+ * Model Derivative properties arrive as display strings such as "3000 mm", "12.5 m²",
+ * "45.00°" or "10' - 6 1/2"". This module parses them into a number, its unit and its
+ * physical dimension so that values can be compared, aggregated and converted between
+ * metric and imperial display.
+ */
+
+export type Dimension = "length" | "area" | "volume" | "angle" | "mass" | "none";
+
+export type UnitSystem = "metric" | "imperial";
+
+export interface ParsedValue {
+  value: number;
+  unit: string;
+  dimension: Dimension;
+}
+
+interface UnitDefinition {
+  symbol: string;
+  dimension: Dimension;
+  // Multiplier converting a value in this unit to the dimension's base unit (m, m², m³, °, kg).
+  factor: number;
+  system: UnitSystem | "both";
+}
+
+const UNITS: UnitDefinition[] = [
+  { symbol: "mm", dimension: "length", factor: 0.001, system: "metric" },
+  { symbol: "cm", dimension: "length", factor: 0.01, system: "metric" },
+  { symbol: "dm", dimension: "length", factor: 0.1, system: "metric" },
+  { symbol: "m", dimension: "length", factor: 1, system: "metric" },
+  { symbol: "km", dimension: "length", factor: 1000, system: "metric" },
+  { symbol: "in", dimension: "length", factor: 0.0254, system: "imperial" },
+  { symbol: "ft", dimension: "length", factor: 0.3048, system: "imperial" },
+  { symbol: "yd", dimension: "length", factor: 0.9144, system: "imperial" },
+  { symbol: "mm²", dimension: "area", factor: 1e-6, system: "metric" },
+  { symbol: "cm²", dimension: "area", factor: 1e-4, system: "metric" },
+  { symbol: "m²", dimension: "area", factor: 1, system: "metric" },
+  { symbol: "ha", dimension: "area", factor: 1e4, system: "metric" },
+  { symbol: "in²", dimension: "area", factor: 0.00064516, system: "imperial" },
+  { symbol: "ft²", dimension: "area", factor: 0.09290304, system: "imperial" },
+  { symbol: "yd²", dimension: "area", factor: 0.83612736, system: "imperial" },
+  { symbol: "acre", dimension: "area", factor: 4046.8564224, system: "imperial" },
+  { symbol: "mm³", dimension: "volume", factor: 1e-9, system: "metric" },
+  { symbol: "cm³", dimension: "volume", factor: 1e-6, system: "metric" },
+  { symbol: "m³", dimension: "volume", factor: 1, system: "metric" },
+  { symbol: "L", dimension: "volume", factor: 0.001, system: "metric" },
+  { symbol: "in³", dimension: "volume", factor: 1.6387064e-5, system: "imperial" },
+  { symbol: "ft³", dimension: "volume", factor: 0.028316846592, system: "imperial" },
+  { symbol: "yd³", dimension: "volume", factor: 0.764554857984, system: "imperial" },
+  { symbol: "gal", dimension: "volume", factor: 0.003785411784, system: "imperial" },
+  { symbol: "°", dimension: "angle", factor: 1, system: "both" },
+  { symbol: "rad", dimension: "angle", factor: 180 / Math.PI, system: "both" },
+  { symbol: "g", dimension: "mass", factor: 0.001, system: "metric" },
+  { symbol: "kg", dimension: "mass", factor: 1, system: "metric" },
+  { symbol: "t", dimension: "mass", factor: 1000, system: "metric" },
+  { symbol: "lb", dimension: "mass", factor: 0.45359237, system: "imperial" },
+];
+
+// Alternative spellings mapped to the canonical unit symbols above, keyed in lower case.
+const UNIT_ALIASES: { [alias: string]: string } = {
+  '"': "in",
+  inch: "in",
+  inches: "in",
+  "'": "ft",
+  foot: "ft",
+  feet: "ft",
+  "sq m": "m²",
+  "sq. m": "m²",
+  sqm: "m²",
+  "sq ft": "ft²",
+  "sq. ft": "ft²",
+  sf: "ft²",
+  "sq in": "in²",
+  "cu m": "m³",
+  "cu ft": "ft³",
+  cf: "ft³",
+  "cu in": "in³",
+  "cu yd": "yd³",
+  acres: "acre",
+  l: "L",
+  liter: "L",
+  litre: "L",
+  liters: "L",
+  litres: "L",
+  deg: "°",
+  degree: "°",
+  degrees: "°",
+  lbs: "lb",
+};
+
+// Units used to display converted values in each system.
+const DISPLAY_UNITS: Record<UnitSystem, Partial<Record<Dimension, string>>> = {
+  metric: { length: "mm", area: "m²", volume: "m³", mass: "kg" },
+  imperial: { length: "ft", area: "ft²", volume: "ft³", mass: "lb" },
+};
+
+const UNITS_BY_SYMBOL = new Map(UNITS.map((unit) => [unit.symbol.toLowerCase(), unit]));
+
+// Leading number with an optional unit, e.g. "12.5 m²" or "-3.0E-2 m".
+const NUMBER_WITH_UNIT = /^(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)\s*(.*)$/i;
+
+// Feet and inches, e.g. 10' - 6 1/2" or 10' 6".
+const FEET_INCHES = /^(-)?(\d+(?:\.\d+)?)'(?:\s*-?\s*(\d+(?:\.\d+)?)?(?:\s*(\d+)\/(\d+))?")?$/;
+
+// Inches with a fraction, e.g. 6 1/2".
+const FRACTIONAL_INCHES = /^(-)?(?:(\d+)\s+)?(\d+)\/(\d+)"$/;
+
+/**
+ * findUnit - Looks up a unit by symbol or alias, normalising exponents such as m2, m^2 and m².
+ *
+ * @param text - The unit as written.
+ * @returns The unit definition, or undefined if the unit is not recognised.
+ */
+export const findUnit = (text: string): UnitDefinition | undefined => {
+  const normalized = text
+    .trim()
+    .replace(/\^?2$/, "²")
+    .replace(/\^?3$/, "³")
+    .replace(/\s+/g, " ");
+  const symbol = UNIT_ALIASES[normalized.toLowerCase()] || normalized;
+  return UNITS_BY_SYMBOL.get(symbol.toLowerCase());
+};
+
+/**
+ * parsePropertyValue - Parses a raw property value into a number, unit and dimension.
+ *
+ * @param raw - The raw property value.
+ * @returns The parsed value, or null when the value is not numeric or has an unknown unit.
+ */
+export const parsePropertyValue = (raw: unknown): ParsedValue | null => {
+  if (typeof raw === "number") {
+    return isFinite(raw) ? { value: raw, unit: "", dimension: "none" } : null;
+  }
+  if (typeof raw !== "string") return null;
+
+  const text = raw.trim();
+
+  const feetInches = FEET_INCHES.exec(text);
+  if (feetInches) {
+    const [, sign, feet, inches, numerator, denominator] = feetInches;
+    const totalInches = parseFloat(feet) * 12 + (inches ? parseFloat(inches) : 0) + (numerator ? parseInt(numerator) / parseInt(denominator) : 0);
+    return { value: ((sign ? -1 : 1) * totalInches) / 12, unit: "ft", dimension: "length" };
+  }
+
+  const fractionalInches = FRACTIONAL_INCHES.exec(text);
+  if (fractionalInches) {
+    const [, sign, whole, numerator, denominator] = fractionalInches;
+    const inches = (whole ? parseInt(whole) : 0) + parseInt(numerator) / parseInt(denominator);
+    return { value: (sign ? -1 : 1) * inches, unit: "in", dimension: "length" };
+  }
+
+  const match = NUMBER_WITH_UNIT.exec(text);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  if (!match[2]) return { value, unit: "", dimension: "none" };
+
+  const unit = findUnit(match[2]);
+  return unit ? { value, unit: unit.symbol, dimension: unit.dimension } : null;
+};
+
+/**
+ * toBaseValue - Converts a parsed value to its dimension's base unit (m, m², m³, °, kg).
+ *
+ * @param parsed - The parsed value.
+ * @returns The value in the base unit; unitless values are returned unchanged.
+ */
+export const toBaseValue = (parsed: ParsedValue): number => {
+  const unit = parsed.unit ? UNITS_BY_SYMBOL.get(parsed.unit.toLowerCase()) : undefined;
+  return unit ? parsed.value * unit.factor : parsed.value;
+};
+
+/**
+ * convertToSystem - Expresses a parsed value in the given unit system.
+ *
+ * Values already in a unit of that system keep their unit; others are converted to the
+ * system's display unit for the dimension.
+ *
+ * @param parsed - The parsed value.
+ * @param system - The target unit system.
+ * @returns The converted value.
+ */
+export const convertToSystem = (parsed: ParsedValue, system: UnitSystem): ParsedValue => {
+  const unit = parsed.unit ? UNITS_BY_SYMBOL.get(parsed.unit.toLowerCase()) : undefined;
+  const targetSymbol = DISPLAY_UNITS[system][parsed.dimension];
+  if (!unit || unit.system === "both" || unit.system === system || !targetSymbol) return parsed;
+
+  const target = UNITS_BY_SYMBOL.get(targetSymbol.toLowerCase())!;
+  return { value: (parsed.value * unit.factor) / target.factor, unit: target.symbol, dimension: parsed.dimension };
+};
+
+/**
+ * formatParsedValue - Formats a parsed value as "<number> <unit>".
+ *
+ * @param parsed - The parsed value.
+ * @returns The formatted text with at most three decimals.
+ */
+export const formatParsedValue = (parsed: ParsedValue): string => {
+  const number = parsed.value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+  if (!parsed.unit) return number;
+  return parsed.unit === "°" ? `${number}°` : `${number} ${parsed.unit}`;
+};
+
+/**
+ * formatValueForSystem - Formats a raw property value for display in the chosen unit system.
+ *
+ * Values that do not need converting are returned exactly as the model reported them.
+ *
+ * @param raw - The raw property value.
+ * @param system - The unit system selected by the user.
+ * @returns The display text, or null when the value is not a unit-bearing number.
+ */
+export const formatValueForSystem = (raw: unknown, system: UnitSystem): string | null => {
+  const parsed = parsePropertyValue(raw);
+  if (!parsed || parsed.dimension === "none") return null;
+
+  const converted = convertToSystem(parsed, system);
+  return converted === parsed ? null : formatParsedValue(converted);
+};
+
+/**
+ * compareParsedValues - Compares two parsed values numerically.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns The difference of their base values, or null if their dimensions differ.
+ */
+export const compareParsedValues = (a: ParsedValue, b: ParsedValue): number | null => {
+  if (a.dimension !== b.dimension) return null;
+  return toBaseValue(a) - toBaseValue(b);
+};
+
+/**
+ * sumParsedValues - Adds up values of the same dimension, e.g. for schedule totals.
+ *
+ * @param values - The parsed values to add.
+ * @param system - The unit system to express the total in.
+ * @returns The total, or null if the values are empty or have different dimensions.
+ */
+export const sumParsedValues = (values: ParsedValue[], system: UnitSystem): ParsedValue | null => {
+  if (values.length === 0) return null;
+
+  const dimension = values[0].dimension;
+  if (values.some((value) => value.dimension !== dimension)) return null;
+  if (dimension === "none") return { value: values.reduce((sum, value) => sum + value.value, 0), unit: "", dimension };
+
+  // Sum in base units and express the total in the unit of the first value, converted to the system.
+  const total = values.reduce((sum, value) => sum + toBaseValue(value), 0);
+  const unit = UNITS_BY_SYMBOL.get(values[0].unit.toLowerCase())!;
+  return convertToSystem({ value: total / unit.factor, unit: unit.symbol, dimension }, system);
+};
@@ -1,4 +1,4 @@
-import { ObjectTreeDataObjects } from "@aps_sdk/model-derivative";
+import { ObjectTreeDataObjects, PropertiesDataCollection } from "@aps_sdk/model-derivative";
 
 // types/index.ts
 export interface OAuthToken {
@@ -25,15 +25,54 @@ export interface Project {
     type: string;
 }
 
+/**
+ * VersionMetadata - Details of a version of a file, shown in the project tree.
+ */
+export interface VersionMetadata {
+    versionNumber: number;
+    // File extension, e.g. "rvt".
+    fileType: string;
+    // Size in bytes, if reported.
+    storageSize?: number;
+    lastModifiedTime: string;
+    lastModifiedUserName: string;
+    // Comment entered when the version was uploaded, if any.
+    description?: string;
+}
+
 export interface FolderContent {
     id: string;
     name: string;
     folder: boolean;
+    // For items: details of their latest version.
+    tip?: VersionMetadata;
 }
 
 export interface Version {
     id: string;
     name: string;
+    metadata: VersionMetadata;
+}
+
+/**
+ * SearchResult - An item found by searching a project, with the folders leading to it.
+ */
+export interface SearchResult {
+    itemId: string;
+    name: string;
+    // File extension of the item's latest version, e.g. "rvt".
+    fileType: string;
+    // Folders from the project's top folder down to the item's folder.
+    folders: { id: string; name: string }[];
+}
+
+/**
+ * ProjectSearch - The items found by searching a project.
+ */
+export interface ProjectSearch {
+    results: SearchResult[];
+    // Whether the search stopped before every matching item was found, so more may exist.
+    truncated: boolean;
 }
 
 export interface View {
@@ -43,6 +82,18 @@ export interface View {
     role: string;
 }
 
+/**
+ * TreeLocation - Path of a version in the project tree, from its hub down to the version.
+ */
+export interface TreeLocation {
+    hubId: string;
+    projectId: string;
+    // Folders from the project's top folder down to the item's folder.
+    folderIds: string[];
+    itemId: string;
+    versionId: string;
+}
+
 export interface TreeNode {
     id: string;
     text: string;
@@ -59,8 +110,79 @@ export interface SessionData {
     expires_at: number;
 }
 
-export interface ObjectTreeData extends ObjectTreeDataObjects {
-    properties?: {
-        [key: string]: object;
-    };
+// Object tree nodes reference their properties by objectid instead of embedding a copy.
+export type ObjectTreeData = ObjectTreeDataObjects;
+
+/**
+ * ViewDataMessage - One line of the NDJSON stream returned by the allProperties route.
+ * "progress" lines report properties fetched from APS in pages, if the model is too large to
+ * fetch at once. The tree is then sent, followed by the properties in pages and a final "end" line.
+ */
+export type ViewDataMessage =
+    | { type: "processing" }
+    | { type: "progress"; loaded: number; total: number }
+    | { type: "tree"; objectTree: ObjectTreeData[]; total: number }
+    | { type: "properties"; items: PropertiesDataCollection[] }
+    | { type: "end" }
+    | { type: "error"; message: string };
+
+export interface TableColumnLayout {
+    category: string;
+    property: string;
+    width: number;
+}
+
+export interface TableLayout {
+    columns: TableColumnLayout[];
+    sortKey: string;
+    sortDirection: "asc" | "desc";
+}
+
+export interface ParameterChange {
+    category: string;
+    property: string;
+    oldValue?: unknown;
+    newValue?: unknown;
+}
+
+export interface ElementDiff {
+    externalId: string;
+    objectid: number;
+    name: string;
+    status: "added" | "removed" | "modified";
+    changes: ParameterChange[];
+}
+
+export interface VersionDiff {
+    isProcessing: boolean;
+    added: ElementDiff[];
+    removed: ElementDiff[];
+    modified: ElementDiff[];
+}
+
+export interface ManifestMessage {
+    type: string;
+    code: string;
+    message: string;
+}
+
+/**
+ * ManifestSummary - Overall translation state of a version, from its derivative manifest.
+ * The status is "none" when the version has never been translated.
+ */
+export interface ManifestSummary {
+    // Manifest status: none, pending, inprogress, success, failed or timeout.
+    status: string;
+    // Translation progress as a percentage.
+    progress: number;
+    messages: ManifestMessage[];
+}
+
+/**
+ * TranslationStatus - Readiness of a model view, sent by the status route as server-sent events.
+ * "translating" while the derivative service translates the version, "extracting" while the
+ * property database is extracted, then either "ready" or "failed".
+ */
+export interface TranslationStatus extends ManifestSummary {
+    state: "translating" | "extracting" | "ready" | "failed";
 }